@@ -1,5 +1,6 @@
 import esbuild from "esbuild";
 import process from "process";
+import path from "path";
 import builtins from 'builtin-modules'
 
 const banner =
@@ -11,6 +12,34 @@ if you want to view the source, please visit the github repository of this plugi
 
 const prod = (process.argv[2] === 'production');
 
+// Bundles "./file?worker" imports into a string, started from a Blob URL at runtime
+const inlineWorkerPlugin = {
+	name: 'inline-worker',
+	setup(build) {
+		build.onResolve({ filter: /\?worker$/ }, (args) => ({
+			path: path.join(args.resolveDir, args.path.replace(/\?worker$/, '.ts')),
+			namespace: 'inline-worker',
+		}));
+		build.onLoad({ filter: /.*/, namespace: 'inline-worker' }, async (args) => {
+			const result = await esbuild.build({
+				entryPoints: [args.path],
+				bundle: true,
+				write: false,
+				metafile: true,
+				format: 'iife',
+				target: 'es2016',
+				minify: prod,
+			});
+			return {
+				contents: result.outputFiles[0].text,
+				loader: 'text',
+				// Rebuild in watch mode when a file of the worker changes
+				watchFiles: Object.keys(result.metafile.inputs).map((file) => path.resolve(file)),
+			};
+		});
+	},
+};
+
 const buildOptions = {
 	banner: {
 		js: banner,
@@ -24,6 +53,7 @@ const buildOptions = {
 	sourcemap: prod ? false : 'inline',
 	treeShaking: true,
 	outfile: 'main.js',
+	plugins: [inlineWorkerPlugin],
 };
 
 if (prod) {
@@ -106,10 +106,18 @@ export const templateAdmonition = "# {{title}}\n" +
 
 export const DEFAULT_SETTINGS: ZoteroDirectSettings = {
 	zoteroDbPath: "",
+	sourceName: "Zotero",
+	sources: [],
+	useLocalApi: false,
+	localApiUrl: "http://localhost:23119/api",
+	baseAttachmentPath: "",
+	fallbackCitationKeyFormat: "{{authorLastName}}{{year}}{{titleFirstWord}}",
 	templateContent: templatePlain,
 	templateType: "Admonition",
 	lastUpdateDate: new Date('1995-12-17T03:24:00'),
 	updateLibrary: "Only update existing notes",
+	deletedItemAction: "Do nothing",
+	deletedItemArchivePath: "",
 	exportPath: "",
 	exportTitle: "{{citeKey}}",
 	missingfield: "Leave placeholder",
@@ -118,10 +126,40 @@ export const DEFAULT_SETTINGS: ZoteroDirectSettings = {
 	saveManualEditsEnd: "",
 	isDoubleSpaced: true,
 	multipleFieldsDivider: ";",
+	excludeAutomaticTags: false,
 	nameFormat: "{{lastName}}, {{firstName}}",
 	debugMode: false,
 	missingfieldreplacement: "NA",
+	userNotesSeparator: "\n\n---\n\n",
+	userNotesHeading: "### {{noteTitle}}",
+	importAnnotations: false,
+	annotationFormat: "> {{highlight}} ([p. {{page}}]({{link}}))\n\n{{comment}}",
+	annotationColors: "",
+	annotationTags: "",
+	libraryFilter: "",
+	savedSearchFilter: "",
+	importFeedItems: false,
+	attachmentMirror: "Off",
+	attachmentMirrorPath: "",
 };
 
+// Colours of the Zotero annotation palette (Zotero 6/7)
+export const ANNOTATION_COLORS: Record<string, string> = {
+	"#ffd400": "yellow",
+	"#ff6666": "red",
+	"#5fb236": "green",
+	"#2ea8e5": "blue",
+	"#a28ae5": "purple",
+	"#e56eee": "magenta",
+	"#f19837": "orange",
+	"#aaaaaa": "gray",
+};
+
+// Note listing the literature notes of items removed from Zotero (in the export folder)
+export const DELETED_ITEMS_REPORT = "Removed from Zotero.md";
+
+// Note listing the literature notes of retracted items (in the export folder)
+export const RETRACTED_ITEMS_REPORT = "Retracted sources.md";
+
 export const TEMPLATE_REG = /\{\{[^}]+\}\}/g;
 export const TEMPLATE_BRACKET_REG = /\[\[\{\{[^}]+\}\}\]\]/g;
\ No newline at end of file
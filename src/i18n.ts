@@ -28,6 +28,23 @@ interface I18nStrings {
 	zoteroDbPathName: string;
 	zoteroDbPathDesc: string;
 	zoteroDbPathPlaceholder: string;
+	zoteroDbPathDetect: string;
+	zoteroDbPathDetectTooltip: string;
+	zoteroDbPathMissing: string;
+	zoteroDbPathChooseName: string;
+	zoteroDbPathChooseDesc: string;
+	zoteroDbPathChoosePlaceholder: string;
+	sourceNameName: string;
+	sourceNameDesc: string;
+	useLocalApiName: string;
+	useLocalApiDesc: string;
+	localApiUrlName: string;
+	localApiUrlDesc: string;
+	baseAttachmentPathName: string;
+	baseAttachmentPathDesc: string;
+	baseAttachmentPathPlaceholder: string;
+	fallbackCitationKeyName: string;
+	fallbackCitationKeyDesc: string;
 
 	// ── Settings: Cache ──
 	cacheStatusName: string;
@@ -40,6 +57,27 @@ interface I18nStrings {
 	cacheItemsCached: (count: number) => string;
 	cacheNone: string;
 
+	// ── Settings: Libraries ──
+	libraryFilterName: string;
+	libraryFilterDesc: string;
+	libraryFilterAll: string;
+	savedSearchFilterName: string;
+	savedSearchFilterDesc: string;
+	savedSearchFilterNone: string;
+	importFeedItemsName: string;
+	importFeedItemsDesc: string;
+
+	// ── Settings: Additional Sources ──
+	sectionSources: string;
+	sectionSourcesDesc: string;
+	sourceAdd: string;
+	sourceRemove: string;
+	sourceHeading: (name: string) => string;
+	sourceExportPathName: string;
+	sourceExportPathDesc: string;
+	sourceTemplateName: string;
+	sourceTemplateDesc: string;
+
 	// ── Settings: Export Path ──
 	exportPathName: string;
 	exportPathDesc: string;
@@ -70,10 +108,39 @@ interface I18nStrings {
 	multipleEntriesDividerName: string;
 	multipleEntriesDividerDesc: string;
 
+	// ── Settings: Tags ──
+	excludeAutomaticTagsName: string;
+	excludeAutomaticTagsDesc: string;
+
 	// ── Settings: Name Format ──
 	formatNamesName: string;
 	formatNamesDesc: string;
 
+	// ── Settings: Zotero Notes ──
+	userNotesHeadingName: string;
+	userNotesHeadingDesc: string;
+	userNotesSeparatorName: string;
+	userNotesSeparatorDesc: string;
+
+	// ── Settings: PDF Annotations ──
+	importAnnotationsName: string;
+	importAnnotationsDesc: string;
+	annotationFormatName: string;
+	annotationFormatDesc: string;
+	annotationColorsName: string;
+	annotationColorsDesc: string;
+	annotationTagsName: string;
+	annotationTagsDesc: string;
+
+	// ── Settings: Attachment Mirror ──
+	attachmentMirrorName: string;
+	attachmentMirrorDesc: string;
+	attachmentMirrorOff: string;
+	attachmentMirrorCopy: string;
+	attachmentMirrorSymlink: string;
+	attachmentMirrorPathName: string;
+	attachmentMirrorPathDesc: string;
+
 	// ── Settings: Save Manual Edits ──
 	saveManualEditsName: string;
 	saveManualEditsDesc: string;
@@ -90,24 +157,50 @@ interface I18nStrings {
 	updateExistingAllDesc: string;
 	onlyUpdateExisting: string;
 	createNewWhenMissing: string;
+	deletedItemActionName: string;
+	deletedItemActionDesc: string;
+	deletedItemNothing: string;
+	deletedItemProperty: string;
+	deletedItemArchive: string;
+	deletedItemReport: string;
+	deletedItemArchivePathName: string;
+	deletedItemArchivePathDesc: string;
 
 	// ── Commands ──
 	cmdCreateUpdateNote: string;
 	cmdUpdateLibrary: string;
 	cmdUpdateCurrentNote: string;
+	cmdRetractedReport: string;
 
 	// ── Notices (main.ts / modal.ts) ──
 	noticeImported: (citeKey: string) => string;
 	noticeDbNotConfigured: string;
 	noticeDbReadFailed: string;
+	noticeReadOpening: string;
+	noticeReadItems: string;
+	noticeReadCollections: string;
+	noticeDbDetected: (dbPath: string) => string;
+	noticeDbNotDetected: string;
+	noticeDbPathMissing: (dbPath: string, detected: string) => string;
 	noticeUpdatedEntries: (count: number) => string;
 	noticeCurrentNoteUpdated: (name: string) => string;
 	noticeCurrentNoteNotFound: (name: string) => string;
 	noticeCiteKeyNotFound: (name: string) => string;
+	noticeDeletedItems: (count: number) => string;
+	noticeGeneratedCitationKeys: (count: number) => string;
+	noticeSkippedCitationKeys: (count: number) => string;
+	noticeRetractedNotes: (count: number) => string;
 
 	// ── Modal: misc labels ──
 	labelTags: string;
+	labelFullText: string;
+	labelGeneratedCitationKey: string;
+	labelRetracted: string;
 	noSearchResult: string;
+
+	// ── Templates ──
+	fileMissing: string;
+	retractedNotice: (date: string) => string;
 }
 
 const en: I18nStrings = {
@@ -120,8 +213,29 @@ const en: I18nStrings = {
 	// ── Settings: Zotero Database ──
 	zoteroDbPathName: "Zotero Database Path",
 	zoteroDbPathDesc:
-		"Absolute path to Zotero's SQLite database file (zotero.sqlite). For example: C:\\Users\\YourName\\Zotero\\zotero.sqlite",
+		"Absolute path to Zotero's SQLite database file (zotero.sqlite). For example: C:\\Users\\YourName\\Zotero\\zotero.sqlite. A Better BibTeX auto-export (.bib, BetterCSL JSON or CSL JSON .json file) can be used instead.",
 	zoteroDbPathPlaceholder: "C:\\Users\\YourName\\Zotero\\zotero.sqlite",
+	zoteroDbPathDetect: "Detect",
+	zoteroDbPathDetectTooltip: "Find zotero.sqlite from Zotero's profiles and the default data directory",
+	zoteroDbPathMissing: "⚠ No database exists at this path anymore. Use Detect to find it.",
+	zoteroDbPathChooseName: "Detected databases",
+	zoteroDbPathChooseDesc: "Several Zotero databases were found. Choose the one to read.",
+	zoteroDbPathChoosePlaceholder: "Choose a database…",
+	sourceNameName: "Source name",
+	sourceNameDesc:
+		"Name of this database, shown in the reference picker when additional sources are set up and available as {{sourceName}} in templates.",
+	useLocalApiName: "Read through Zotero's local API",
+	useLocalApiDesc:
+		"While Zotero 7 is running, read the library through its local API instead of copying the database file. Turn on \"Allow other applications on this computer to communicate with Zotero\" in Zotero's advanced settings. The database file is still read when Zotero is closed, and for full-text search and retracted items.",
+	localApiUrlName: "Local API address",
+	localApiUrlDesc: "Address of Zotero's local API. Only change it to read from another port or a test server.",
+	baseAttachmentPathName: "Linked attachment base directory",
+	baseAttachmentPathDesc:
+		"Folder that Zotero resolves relative linked files against (Settings → Advanced → Files and Folders). Leave empty to read it from Zotero's preferences.",
+	baseAttachmentPathPlaceholder: "Read from Zotero preferences",
+	fallbackCitationKeyName: "Fallback citation key",
+	fallbackCitationKeyDesc:
+		"Formula for the citation key of items that have none (no Better BibTeX key, citationKey field or \"Citation Key:\" line in Extra). Placeholders: {{authorLastName}}, {{year}}, {{titleFirstWord}}, {{title}}, {{itemKey}}. Duplicates get a/b/c suffixes. Leave empty to skip these items.",
 
 	// ── Settings: Cache ──
 	cacheStatusName: "Cache Status",
@@ -136,6 +250,31 @@ const en: I18nStrings = {
 	cacheItemsCached: (count) => `${count} items cached`,
 	cacheNone: "No cache",
 
+	// ── Settings: Libraries ──
+	libraryFilterName: "Library",
+	libraryFilterDesc:
+		"Restrict the reference picker and Update Library to a single Zotero library (My Library or a group library). Update Library only applies it to the main database. The list of libraries is available once the cache has been built.",
+	libraryFilterAll: "All libraries",
+	savedSearchFilterName: "Saved search",
+	savedSearchFilterDesc:
+		"Restrict the reference picker and Update Library to the items matching a Zotero saved search. Update Library only applies it to the main database. Full-text, note and annotation conditions are ignored.",
+	savedSearchFilterNone: "All items",
+	importFeedItemsName: "Import RSS feed items",
+	importFeedItemsDesc:
+		"Show the items of your Zotero feeds in the reference picker so that they can be turned into literature notes. The feed name is available as {{feedName}}. Feed items are never created or updated by Update Library. Changing this setting clears the cache.",
+
+	// ── Settings: Additional Sources ──
+	sectionSources: "Additional sources",
+	sectionSourcesDesc:
+		"Read other Zotero databases too, e.g. a second Zotero profile. Each source has its own cache and can export its notes to its own folder with its own template; the other settings are shared.",
+	sourceAdd: "Add source",
+	sourceRemove: "Remove source",
+	sourceHeading: (name) => `Source: ${name}`,
+	sourceExportPathName: "Export path",
+	sourceExportPathDesc: "Folder for the notes of this source. Leave empty to use the main export path.",
+	sourceTemplateName: "Template",
+	sourceTemplateDesc: "Template for the notes of this source. Leave empty to use the main template.",
+
 	// ── Settings: Export Path ──
 	exportPathName: "Export Path",
 	exportPathDesc:
@@ -171,11 +310,49 @@ const en: I18nStrings = {
 	multipleEntriesDividerDesc:
 		"Type the character or expression that should separate multiple values when found in the same field (e.g. authors, editors, tags, collections).",
 
+	// ── Settings: Tags ──
+	excludeAutomaticTagsName: "Exclude Automatic Tags",
+	excludeAutomaticTagsDesc:
+		"Leave the tags added automatically by Zotero (e.g. subject keywords imported from publisher metadata) out of {{keywordsZotero}}, {{keywords}} and {{keywordsAll}}. Use {{tagsManual}} and {{tagsAutomatic}} to list each kind separately and {{tagsColored}} for the tags with a colour or emoji in Zotero.",
+
 	// ── Settings: Name Format ──
 	formatNamesName: "Format Names",
 	formatNamesDesc:
 		"Specify how the names of the authors/editors should be exported. Accepted values are {{firstName}}, {{lastName}} and {{firstNameInitials}}",
 
+	// ── Settings: Zotero Notes ──
+	userNotesHeadingName: "Zotero Notes Heading",
+	userNotesHeadingDesc:
+		"Heading added before each Zotero note inserted in {{UserNotes}}. {{noteTitle}} is replaced by the title of the note. Leave empty to insert the notes without heading.",
+	userNotesSeparatorName: "Zotero Notes Separator",
+	userNotesSeparatorDesc:
+		"Text inserted between two Zotero notes in {{UserNotes}}.",
+
+	// ── Settings: PDF Annotations ──
+	importAnnotationsName: "Import PDF Annotations",
+	importAnnotationsDesc:
+		"Fill the {{annotations}} placeholder with the highlights and comments made in the Zotero PDF reader. Disabled by default to keep the human in the loop.",
+	annotationFormatName: "Annotation Format",
+	annotationFormatDesc:
+		"Format of each annotation. Available placeholders: {{highlight}}, {{comment}}, {{color}}, {{colorName}}, {{page}}, {{link}}, {{tags}}, {{type}}. Lines whose placeholders are all empty are removed.",
+	annotationColorsName: "Annotation Colours",
+	annotationColorsDesc:
+		"Only import annotations with these colours (comma-separated names such as yellow, red, green, blue, purple, magenta, orange, gray, or hex codes). Leave empty to import all colours.",
+	annotationTagsName: "Annotation Tags",
+	annotationTagsDesc:
+		"Only import annotations with at least one of these tags (comma-separated). Leave empty to import all annotations.",
+
+	// ── Settings: Attachment Mirror ──
+	attachmentMirrorName: "Mirror Attachments in the Vault",
+	attachmentMirrorDesc:
+		"Copy the PDF and EPUB attachments of the entry into the vault, or link them with a symlink (desktop only), so that they can be read and annotated in Obsidian. Use {{pdfEmbed}} to embed them and {{pdfLink}} to link them in the note. Attachments are only mirrored for templates that use these placeholders, and copies are refreshed when the attachment changes in Zotero.",
+	attachmentMirrorOff: "Off",
+	attachmentMirrorCopy: "Copy the files",
+	attachmentMirrorSymlink: "Create symlinks",
+	attachmentMirrorPathName: "Attachment folder",
+	attachmentMirrorPathDesc:
+		'Vault folder receiving the mirrored attachments. Leave empty to use an "Attachments" folder inside the export folder.',
+
 	// ── Settings: Save Manual Edits ──
 	saveManualEditsName: "Save Manual Edits",
 	saveManualEditsDesc:
@@ -196,27 +373,62 @@ const en: I18nStrings = {
 		"Select whether to create new notes that are missing from Obsidian but present/modified within Zotero when running the Update Library command",
 	onlyUpdateExisting: "Only update existing notes",
 	createNewWhenMissing: "Create new notes when missing",
+	deletedItemActionName: "Items removed from Zotero",
+	deletedItemActionDesc:
+		"What to do with the literature notes of items that were moved to the Zotero trash or deleted. Removed items are detected when the cache is refreshed.",
+	deletedItemNothing: "Do nothing",
+	deletedItemProperty: "Add a zotero-status property",
+	deletedItemArchive: "Move to archive folder",
+	deletedItemReport: "List in a report note",
+	deletedItemArchivePathName: "Archive folder",
+	deletedItemArchivePathDesc:
+		"Folder the notes of removed items are moved to. Defaults to an \"Archive\" subfolder of the export path.",
 
 	// ── Commands ──
 	cmdCreateUpdateNote: "Create/Update Literature Note",
 	cmdUpdateLibrary: "Update Library",
 	cmdUpdateCurrentNote: "Update Current Note",
+	cmdRetractedReport: "List Notes of Retracted Sources",
 
 	// ── Notices ──
 	noticeImported: (citeKey) => `Imported ${citeKey}!`,
 	noticeDbNotConfigured:
 		"Zotero database path not configured. Please set it in plugin settings.",
 	noticeDbReadFailed: "Failed to read Zotero database: ",
+	noticeReadOpening: "Reading the Zotero database: opening…",
+	noticeReadItems: "Reading the Zotero database: items…",
+	noticeReadCollections: "Reading the Zotero database: collections and saved searches…",
+	noticeDbDetected: (dbPath) => `Zotero database found: ${dbPath}`,
+	noticeDbNotDetected: "No Zotero database found. Please enter its path by hand.",
+	noticeDbPathMissing: (dbPath, detected) =>
+		`Zotero database not found at ${dbPath}.` +
+		(detected ? ` Found one at ${detected}: use Detect in plugin settings.` : ""),
 	noticeUpdatedEntries: (count) => `Updated ${count} entries`,
 	noticeCurrentNoteUpdated: (name) => `Current Note ${name} updated`,
 	noticeCurrentNoteNotFound: (name) =>
 		`Current Note ${name} not found in the library`,
 	noticeCiteKeyNotFound: (name) =>
 		`Cannot find citeKey from Current Note: ${name}`,
+	noticeDeletedItems: (count) =>
+		`${count} items were removed from Zotero`,
+	noticeGeneratedCitationKeys: (count) =>
+		`${count} items have no citation key: generated keys are used`,
+	noticeSkippedCitationKeys: (count) =>
+		`${count} items have no citation key and were skipped. Set a fallback citation key in the settings to include them.`,
+	noticeRetractedNotes: (count) =>
+		count > 0 ? `${count} literature notes cite retracted sources` : "No literature note cites a retracted source",
 
 	// ── Modal ──
 	labelTags: "Tags: ",
+	labelFullText: "Full text: ",
+	labelGeneratedCitationKey: "Generated citation key",
+	labelRetracted: "Retracted",
 	noSearchResult: "No search result",
+
+	// ── Templates ──
+	fileMissing: "(file not found)",
+	retractedNotice: (date) =>
+		date ? `⚠️ This publication was retracted on ${date}` : "⚠️ This publication has been retracted",
 };
 
 const zh: I18nStrings = {
@@ -229,8 +441,29 @@ const zh: I18nStrings = {
 	// ── 设置：Zotero 数据库 ──
 	zoteroDbPathName: "Zotero 数据库路径",
 	zoteroDbPathDesc:
-		"Zotero 的 SQLite 数据库文件（zotero.sqlite）的绝对路径。例如：C:\\Users\\用户名\\Zotero\\zotero.sqlite",
+		"Zotero 的 SQLite 数据库文件（zotero.sqlite）的绝对路径。例如：C:\\Users\\用户名\\Zotero\\zotero.sqlite。也可以使用 Better BibTeX 自动导出的文件（.bib、BetterCSL JSON 或 CSL JSON .json 文件）。",
 	zoteroDbPathPlaceholder: "C:\\Users\\用户名\\Zotero\\zotero.sqlite",
+	zoteroDbPathDetect: "检测",
+	zoteroDbPathDetectTooltip: "从 Zotero 的配置文件和默认数据目录中查找 zotero.sqlite",
+	zoteroDbPathMissing: "⚠ 此路径下的数据库已不存在。请使用“检测”查找。",
+	zoteroDbPathChooseName: "检测到的数据库",
+	zoteroDbPathChooseDesc: "找到了多个 Zotero 数据库，请选择要读取的数据库。",
+	zoteroDbPathChoosePlaceholder: "选择数据库…",
+	sourceNameName: "来源名称",
+	sourceNameDesc:
+		"此数据库的名称。设置了其他来源时会显示在文献选择器中，并可在模板中通过 {{sourceName}} 使用。",
+	useLocalApiName: "通过 Zotero 本地 API 读取",
+	useLocalApiDesc:
+		"Zotero 7 运行时，通过其本地 API 读取文献库，而不是复制数据库文件。需要在 Zotero 的高级设置中开启“允许此计算机上的其他应用程序与 Zotero 通信”。Zotero 关闭时，以及全文搜索和撤稿条目，仍会读取数据库文件。",
+	localApiUrlName: "本地 API 地址",
+	localApiUrlDesc: "Zotero 本地 API 的地址。仅在需要从其他端口或测试服务器读取时修改。",
+	baseAttachmentPathName: "链接附件根目录",
+	baseAttachmentPathDesc:
+		"Zotero 解析相对路径链接文件所用的文件夹（设置 → 高级 → 文件和文件夹）。留空则从 Zotero 的偏好设置中读取。",
+	baseAttachmentPathPlaceholder: "从 Zotero 偏好设置读取",
+	fallbackCitationKeyName: "备用引用键",
+	fallbackCitationKeyDesc:
+		"为没有引用键的条目（没有 Better BibTeX 键、citationKey 字段或 Extra 中的“Citation Key:”行）生成引用键的公式。占位符：{{authorLastName}}、{{year}}、{{titleFirstWord}}、{{title}}、{{itemKey}}。重复的键会加上 a/b/c 后缀。留空则跳过这些条目。",
 
 	// ── 设置：缓存 ──
 	cacheStatusName: "缓存状态",
@@ -244,6 +477,31 @@ const zh: I18nStrings = {
 	cacheItemsCached: (count) => `已缓存 ${count} 个条目`,
 	cacheNone: "无缓存",
 
+	// ── 设置：文献库 ──
+	libraryFilterName: "文献库",
+	libraryFilterDesc:
+		"将文献选择器和“更新文献库”限定为单个 Zotero 文献库（我的文库或群组文库）。“更新文献库”只对主数据库应用此限定。缓存构建完成后才会显示文献库列表。",
+	libraryFilterAll: "所有文献库",
+	savedSearchFilterName: "保存的搜索",
+	savedSearchFilterDesc:
+		"将文献选择器和“更新文献库”限定为符合某个 Zotero 保存的搜索的条目。“更新文献库”只对主数据库应用此限定。全文、笔记和注释条件会被忽略。",
+	savedSearchFilterNone: "所有条目",
+	importFeedItemsName: "导入 RSS 订阅条目",
+	importFeedItemsDesc:
+		"在文献选择器中显示 Zotero 订阅源中的条目，以便将其创建为文献笔记。订阅源名称可通过 {{feedName}} 使用。“更新文献库”不会创建或更新订阅条目。更改此设置会清空缓存。",
+
+	// ── 设置：其他来源 ──
+	sectionSources: "其他来源",
+	sectionSourcesDesc:
+		"同时读取其他 Zotero 数据库，例如第二个 Zotero 配置文件。每个来源有独立的缓存，并可使用自己的模板将笔记导出到自己的文件夹；其他设置共用。",
+	sourceAdd: "添加来源",
+	sourceRemove: "删除来源",
+	sourceHeading: (name) => `来源：${name}`,
+	sourceExportPathName: "导出路径",
+	sourceExportPathDesc: "此来源笔记的文件夹。留空则使用主导出路径。",
+	sourceTemplateName: "模板",
+	sourceTemplateDesc: "此来源笔记的模板。留空则使用主模板。",
+
 	// ── 设置：导出路径 ──
 	exportPathName: "导出路径",
 	exportPathDesc: "设置仓库内用于导出笔记的文件夹的相对路径",
@@ -276,11 +534,47 @@ const zh: I18nStrings = {
 	multipleEntriesDividerDesc:
 		"输入同一字段中多个值（如作者、编辑、标签、合集）之间的分隔字符或表达式。",
 
+	// ── 设置：标签 ──
+	excludeAutomaticTagsName: "排除自动标签",
+	excludeAutomaticTagsDesc:
+		"不在 {{keywordsZotero}}、{{keywords}} 和 {{keywordsAll}} 中包含 Zotero 自动添加的标签（如从出版商元数据导入的主题关键词）。使用 {{tagsManual}} 和 {{tagsAutomatic}} 分别列出两类标签，使用 {{tagsColored}} 列出在 Zotero 中设置了颜色或表情符号的标签。",
+
 	// ── 设置：姓名格式 ──
 	formatNamesName: "姓名格式",
 	formatNamesDesc:
 		"指定作者/编辑姓名的导出格式。可用变量：{{firstName}}、{{lastName}}、{{firstNameInitials}}",
 
+	// ── 设置：Zotero 笔记 ──
+	userNotesHeadingName: "Zotero 笔记标题",
+	userNotesHeadingDesc:
+		"插入 {{UserNotes}} 的每条 Zotero 笔记前添加的标题，{{noteTitle}} 会被替换为笔记标题。留空则不添加标题。",
+	userNotesSeparatorName: "Zotero 笔记分隔符",
+	userNotesSeparatorDesc: "{{UserNotes}} 中两条 Zotero 笔记之间插入的文本。",
+
+	// ── 设置：PDF 注释 ──
+	importAnnotationsName: "导入 PDF 注释",
+	importAnnotationsDesc:
+		"使用 Zotero PDF 阅读器中的高亮和评论填充 {{annotations}} 占位符。默认关闭，以保持 \"Human in the loop\" 的理念。",
+	annotationFormatName: "注释格式",
+	annotationFormatDesc:
+		"每条注释的格式。可用变量：{{highlight}}、{{comment}}、{{color}}、{{colorName}}、{{page}}、{{link}}、{{tags}}、{{type}}。所有变量都为空的行会被删除。",
+	annotationColorsName: "注释颜色",
+	annotationColorsDesc:
+		"仅导入这些颜色的注释（以逗号分隔的颜色名，如 yellow、red、green、blue、purple、magenta、orange、gray，或十六进制颜色代码）。留空则导入所有颜色。",
+	annotationTagsName: "注释标签",
+	annotationTagsDesc: "仅导入至少带有其中一个标签的注释（以逗号分隔）。留空则导入所有注释。",
+
+	// ── 设置：附件镜像 ──
+	attachmentMirrorName: "将附件镜像到库中",
+	attachmentMirrorDesc:
+		"将条目的 PDF 和 EPUB 附件复制到库中，或通过符号链接链接过来（仅限桌面端），以便在 Obsidian 中阅读和批注。在笔记中使用 {{pdfEmbed}} 嵌入附件，使用 {{pdfLink}} 链接附件。仅当模板使用这些占位符时才会镜像附件，附件在 Zotero 中更改后会重新复制。",
+	attachmentMirrorOff: "关闭",
+	attachmentMirrorCopy: "复制文件",
+	attachmentMirrorSymlink: "创建符号链接",
+	attachmentMirrorPathName: "附件文件夹",
+	attachmentMirrorPathDesc:
+		"存放镜像附件的库内文件夹。留空则使用导出文件夹中的“Attachments”文件夹。",
+
 	// ── 设置：保留手动编辑 ──
 	saveManualEditsName: "保留手动编辑",
 	saveManualEditsDesc:
@@ -301,24 +595,57 @@ const zh: I18nStrings = {
 		'选择在执行"更新文献库"命令时，是否为 Zotero 中存在但 Obsidian 中缺失的条目创建新笔记',
 	onlyUpdateExisting: "仅更新已有笔记",
 	createNewWhenMissing: "缺失时创建新笔记",
+	deletedItemActionName: "已从 Zotero 移除的条目",
+	deletedItemActionDesc:
+		"如何处理已移到 Zotero 回收站或已删除条目的文献笔记。刷新缓存时会检测被移除的条目。",
+	deletedItemNothing: "不处理",
+	deletedItemProperty: "添加 zotero-status 属性",
+	deletedItemArchive: "移动到归档文件夹",
+	deletedItemReport: "列入报告笔记",
+	deletedItemArchivePathName: "归档文件夹",
+	deletedItemArchivePathDesc:
+		"被移除条目的笔记将移动到此文件夹。默认为导出路径下的“Archive”子文件夹。",
 
 	// ── 命令 ──
 	cmdCreateUpdateNote: "创建/更新文献笔记",
 	cmdUpdateLibrary: "更新文献库",
 	cmdUpdateCurrentNote: "更新当前笔记",
+	cmdRetractedReport: "列出引用已撤稿文献的笔记",
 
 	// ── 通知 ──
 	noticeImported: (citeKey) => `已导入 ${citeKey}！`,
 	noticeDbNotConfigured: "未配置 Zotero 数据库路径，请在插件设置中进行设置。",
 	noticeDbReadFailed: "读取 Zotero 数据库失败：",
+	noticeReadOpening: "正在读取 Zotero 数据库：打开中…",
+	noticeReadItems: "正在读取 Zotero 数据库：条目…",
+	noticeReadCollections: "正在读取 Zotero 数据库：分类和保存的搜索…",
+	noticeDbDetected: (dbPath) => `已找到 Zotero 数据库：${dbPath}`,
+	noticeDbNotDetected: "未找到 Zotero 数据库，请手动输入路径。",
+	noticeDbPathMissing: (dbPath, detected) =>
+		`在 ${dbPath} 未找到 Zotero 数据库。` +
+		(detected ? `在 ${detected} 找到了一个：请在插件设置中使用“检测”。` : ""),
 	noticeUpdatedEntries: (count) => `已更新 ${count} 个条目`,
 	noticeCurrentNoteUpdated: (name) => `当前笔记 ${name} 已更新`,
 	noticeCurrentNoteNotFound: (name) => `当前笔记 ${name} 未在文献库中找到`,
 	noticeCiteKeyNotFound: (name) => `无法从当前笔记识别 citeKey：${name}`,
+	noticeDeletedItems: (count) => `${count} 个条目已从 Zotero 移除`,
+	noticeGeneratedCitationKeys: (count) => `${count} 个条目没有引用键，已使用生成的引用键`,
+	noticeSkippedCitationKeys: (count) =>
+		`${count} 个条目没有引用键，已被跳过。在设置中填写备用引用键即可包含这些条目。`,
+	noticeRetractedNotes: (count) =>
+		count > 0 ? `${count} 篇文献笔记引用了已撤稿的文献` : "没有文献笔记引用已撤稿的文献",
 
 	// ── 模态框 ──
 	labelTags: "标签：",
+	labelFullText: "全文：",
+	labelGeneratedCitationKey: "生成的引用键",
+	labelRetracted: "已撤稿",
 	noSearchResult: "未找到相关结果",
+
+	// ── 模板 ──
+	fileMissing: "（文件不存在）",
+	retractedNotice: (date) =>
+		date ? `⚠️ 该文献已于 ${date} 撤稿` : "⚠️ 该文献已被撤稿",
 };
 
 const locales: Record<Locale, I18nStrings> = { en, zh };
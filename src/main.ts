@@ -1,9 +1,10 @@
 import { Plugin, Notice, FileSystemAdapter, TFile, normalizePath } from "obsidian";
-
-import 'turndown'
+import * as fs from "fs";
 
 import {
 	DEFAULT_SETTINGS,
+	DELETED_ITEMS_REPORT,
+	RETRACTED_ITEMS_REPORT,
 	templateAdmonition,
 	templatePlain,
 } from "./constants";
@@ -21,7 +22,16 @@ import {
 	Collection,
 } from "./types";
 
-import { readZoteroDatabase } from "./zotero-db";
+import { ZoteroReadOptions } from "./zotero-db";
+import { getItemIdentity, ReadStage, ZoteroData } from "./zotero-reader";
+import { ZoteroCacheManager } from "./zotero-cache";
+import { createUserNotes } from "./zotero-notes";
+import { createAnnotationList } from "./zotero-annotations";
+import { getItemTypeLabel } from "./zotero-schema";
+import { mirrorAttachments } from "./zotero-attachments";
+import { applyExtraFields, replaceExtraFields } from "./zotero-extra";
+import { findZoteroDatabases } from "./zotero-prefs";
+import { DataSource, getDataSource, getSourceCacheManager, getSourceNames, getSourceSettings } from "./zotero-sources";
 
 import {
 	createAuthorKey,
@@ -41,10 +51,19 @@ import {
 	createAuthorKeyInitials,
 	createAuthorKeyFullName,
 	parseCiteKeyFromNoteName,
+	createNoteLinkText,
+	createNotePath,
+	parseZoteroDate,
+	createDateISO,
+	replaceDateFormats,
 } from "./utils";
 
 export default class ZoteroDirectPlugin extends Plugin {
 	settings: ZoteroDirectSettings;
+	// The notice about generated citation keys is shown once per session
+	private generatedKeysNotified = false;
+	// Progress of the running full read, see showReadProgress
+	private readProgressNotice: Notice | null = null;
 
 	async onload() {
 		await this.loadSettings();
@@ -79,6 +98,16 @@ export default class ZoteroDirectPlugin extends Plugin {
 			},
 		});
 
+		//Add Command to list the literature notes of retracted items
+		this.addCommand({
+			id: "retractedSourcesReport",
+			name: t().cmdRetractedReport,
+			callback: () => {
+				void this.reportRetractedItems();
+			},
+		});
+
+		this.app.workspace.onLayoutReady(() => this.checkZoteroDbPath());
 	}
 
 	onunload() { }
@@ -95,30 +124,103 @@ export default class ZoteroDirectPlugin extends Plugin {
 		await this.saveData(this.settings);
 	}
 
-	parseMetadata(selectedEntry: Reference, templateOriginal: string) {
+	/**
+	 * Warn when a configured database no longer exists (e.g. the Zotero
+	 * data directory was moved), pointing to a detected one if any.
+	 */
+	checkZoteroDbPath() {
+		for (const sourceName of getSourceNames(this.settings)) {
+			const dbPath = getSourceSettings(this.settings, sourceName).zoteroDbPath;
+			if (fs.existsSync(dbPath)) continue;
+			const detected = findZoteroDatabases()[0] ?? "";
+			new Notice(t().noticeDbPathMissing(dbPath, detected));
+		}
+	}
+
+	/**
+	 * Absolute path of the plugin folder, where sql.js is loaded from.
+	 */
+	getPluginDir(): string {
+		const vaultBasePath = this.app.vault.adapter instanceof FileSystemAdapter ? this.app.vault.adapter.getBasePath() : "";
+		return vaultBasePath && this.manifest.dir
+			? vaultBasePath + "/" + this.manifest.dir
+			: this.manifest.dir || "";
+	}
+
+	/**
+	 * Tell the user about items without a citation key. The notice about
+	 * generated keys is shown once per session, the one about skipped items
+	 * every time (they are missing from the picker and Update Library).
+	 */
+	notifyMissingCitationKeys(count: number) {
+		if (count === 0) return;
+		if (!this.settings.fallbackCitationKeyFormat) {
+			new Notice(t().noticeSkippedCitationKeys(count));
+		} else if (!this.generatedKeysNotified) {
+			this.generatedKeysNotified = true;
+			new Notice(t().noticeGeneratedCitationKeys(count));
+		}
+	}
+
+	/**
+	 * Data source of a Zotero source, read with the options of the settings.
+	 */
+	getDataSource(sourceName: string): DataSource {
+		const cacheManager = getSourceCacheManager(this.app, this.settings, sourceName);
+		return getDataSource(this.settings, sourceName, this.getPluginDir(), this.getReadOptions(), cacheManager);
+	}
+
+	/**
+	 * Options for readZoteroDatabase derived from the settings.
+	 */
+	getReadOptions(): ZoteroReadOptions {
+		return {
+			baseAttachmentPath: this.settings.baseAttachmentPath,
+			fallbackCitationKeyFormat: this.settings.fallbackCitationKeyFormat,
+			includeFeedItems: this.settings.importFeedItems,
+			onProgress: (stage) => this.showReadProgress(stage),
+		};
+	}
+
+	/**
+	 * Show the step of a full database read in a notice that stays until the
+	 * read is done. The read runs in a worker, so Obsidian stays usable.
+	 */
+	private showReadProgress(stage: ReadStage) {
+		if (stage === "done") {
+			this.readProgressNotice?.hide();
+			this.readProgressNotice = null;
+			return;
+		}
+		const s = t();
+		const message = stage === "opening" ? s.noticeReadOpening
+			: stage === "items" ? s.noticeReadItems
+			: s.noticeReadCollections;
+		if (this.readProgressNotice) {
+			this.readProgressNotice.setMessage(message);
+		} else {
+			this.readProgressNotice = new Notice(message, 0);
+		}
+	}
+
+	parseMetadata(selectedEntry: Reference, templateOriginal: string, schemaCreatorTypes: string[] = []) {
 		// Create Note from Template
 		const template = templateOriginal;
 
 		//Create Note
 		let note = template;
 
-		//Replace the author/s
-
-		note = createCreatorList(
-			selectedEntry.creators,
-			"author",
-			note,
-			this.settings.multipleFieldsDivider,
-			this.settings.nameFormat
-		);
-		//Replace the editor/s
-		note = createCreatorList(
-			selectedEntry.creators,
-			"editor",
-			note,
-			this.settings.multipleFieldsDivider,
-			this.settings.nameFormat
-		);
+		//Replace the creators of every role of the schema (author, editor, translator, seriesEditor, ...), so that the roles without creators are emptied
+		const creatorTypes = new Set([...schemaCreatorTypes, ...selectedEntry.creators.map(creator => creator.creatorType)]);
+		for (const creatorType of creatorTypes) {
+			note = createCreatorList(
+				selectedEntry.creators,
+				creatorType,
+				note,
+				this.settings.multipleFieldsDivider,
+				this.settings.nameFormat
+			);
+		}
 
 		//Replace the creators (authors+editors+everybodyelse)
 		note = createCreatorAllList(
@@ -128,12 +230,26 @@ export default class ZoteroDirectPlugin extends Plugin {
 			this.settings.nameFormat
 		);
 
+		//Let the CSL variables in the Extra field override the Zotero fields
+		applyExtraFields(selectedEntry);
+
 		//Create field year from date or dateEnacted
 		if (Object.prototype.hasOwnProperty.call(selectedEntry, "date") && selectedEntry.date) {
 			selectedEntry.year = selectedEntry.date.match(/\d{4}/)?.[0] || "";
 		} else if (Object.prototype.hasOwnProperty.call(selectedEntry, "dateEnacted") && selectedEntry.dateEnacted) {
 			selectedEntry.year = selectedEntry.dateEnacted.match(/\d{4}/)?.[0] || "";
 		}
+		//Create the fields month, day and dateISO from the multipart Zotero date (e.g. "2019-03-00 March 2019")
+		const dateParts = parseZoteroDate(selectedEntry.date);
+		selectedEntry.month = dateParts.month;
+		selectedEntry.day = dateParts.day;
+		selectedEntry.dateISO = createDateISO(selectedEntry.date);
+
+		//Create field retracted (left undefined, and so to the missing field setting, when the item is not retracted)
+		selectedEntry.retracted = selectedEntry.isRetracted
+			? t().retractedNotice(selectedEntry.retractionDate)
+			: undefined;
+
 		//Create field ZoteroLocalLibrary
 		if (Object.prototype.hasOwnProperty.call(selectedEntry, "select")) {
 			selectedEntry.localLibrary =
@@ -145,14 +261,8 @@ export default class ZoteroDirectPlugin extends Plugin {
 		//Create citekey
 		selectedEntry.citeKey = selectedEntry.citationKey
 
-		//Fix itemType
-		if (selectedEntry.itemType == "journalArticle") { selectedEntry.itemType = "Journal Article" }
-		if (selectedEntry.itemType == "report") { selectedEntry.itemType = "Report" }
-		if (selectedEntry.itemType == "bookSection") { selectedEntry.itemType = "Book Section" }
-		if (selectedEntry.itemType == "newspaperArticle") { selectedEntry.itemType = "Newspaper Article" }
-		if (selectedEntry.itemType == "book") { selectedEntry.itemType = "Book" }
-		//Capitalize the first letter
-		selectedEntry.itemType = selectedEntry.itemType.charAt(0).toUpperCase() + selectedEntry.itemType.slice(1);
+		//Replace the itemType with its label from the Zotero schema (e.g. "Journal Article")
+		selectedEntry.itemType = selectedEntry.itemTypeLabel || getItemTypeLabel(undefined, selectedEntry.itemType);
 
 
 		// Create in-line citation (e.g. Collier, Laporte and Seawright (2009))
@@ -221,14 +331,39 @@ export default class ZoteroDirectPlugin extends Plugin {
 		const entriesArray = Object.keys(selectedEntry);
 
 
+		//replace the dates first, so that {{dateAdded}} and {{dateModified}} are in the local timezone
+		note = replaceDateFormats(note, selectedEntry);
 		//replace the single-value placeholders with the value of the field
 		note = replaceAllTemplates(entriesArray, note, selectedEntry);
+		note = replaceExtraFields(note, selectedEntry);
 
 
 
 		//remove single backticks but retain triple backticks
 		note = note.replace(/(?<!`)`(?!`)/g, "'");
 
+		//Replace the notes added manually in Zotero (after the backtick clean-up to keep inline code)
+		const userNotes = createUserNotes(selectedEntry.notes, {
+			separator: this.settings.userNotesSeparator,
+			headingFormat: this.settings.userNotesHeading,
+		});
+		if (userNotes) {
+			note = replaceTemplate(note, "{{UserNotes}}", userNotes);
+		}
+
+		//Replace the PDF annotations (opt-in)
+		if (this.settings.importAnnotations) {
+			const annotations = createAnnotationList(selectedEntry.annotations, {
+				format: this.settings.annotationFormat,
+				colors: this.settings.annotationColors,
+				tags: this.settings.annotationTags,
+			});
+			if (annotations) {
+				note = replaceTemplate(note, "{{annotations}}", annotations);
+				note = replaceTemplate(note, "{{PDFNotes}}", annotations);
+			}
+		}
+
 		// //if the abstract is missing, delete Abstract headings
 
 		note = note.replace(
@@ -256,8 +391,8 @@ export default class ZoteroDirectPlugin extends Plugin {
 		//Create object with all the collections
 		const exportedCollections = data.collections as unknown as Record<string, Collection>;
 
-		//identify the ID of the item
-		const selectedID = selectedEntry.itemID;
+		//identify the item: collections list the "<libraryID>/<itemKey>" of their items
+		const selectedIdentity = getItemIdentity(selectedEntry);
 
 		//Create empty array to store information about the collections of the item
 		let collectionArray: string[] = [];
@@ -286,7 +421,7 @@ export default class ZoteroDirectPlugin extends Plugin {
 				col.items;
 			const collectionParent =
 				col.parent;
-			if (collectionItem.includes(String(selectedID))) {
+			if (collectionItem.includes(selectedIdentity)) {
 				collectionArray.push(collectionName);
 				collectionParentCode.push(collectionParent);
 			}
@@ -305,7 +440,7 @@ export default class ZoteroDirectPlugin extends Plugin {
 				if (!col) continue;
 				if (
 					collectionParentCode.includes(
-						col.key
+						key
 					)
 				) {
 					collectionParentArray.push(
@@ -329,7 +464,7 @@ export default class ZoteroDirectPlugin extends Plugin {
 				if (!col) continue;
 				if (
 					collectionParentParent.includes(
-						col.key
+						key
 					)
 				) {
 					collectionParentArray.push(
@@ -416,18 +551,68 @@ export default class ZoteroDirectPlugin extends Plugin {
 		return metadata;
 	}
 
+	parseRelated(
+		selectedEntry: Reference,
+		data: { items?: Reference[] },
+		metadata: string
+	) {
+		if (!selectedEntry.relatedItems || selectedEntry.relatedItems.length == 0 || !data.items) {
+			return metadata;
+		}
+
+		//Find the literature notes of the items linked as "Related" in Zotero
+		const relatedArray: string[] = [];
+		const relatedCiteKeys: string[] = [];
+		for (const identity of selectedEntry.relatedItems) {
+			const relatedEntry = data.items.find((item) => getItemIdentity(item) === identity);
+			if (!relatedEntry) continue;
+			relatedArray.push(createNoteLinkText(relatedEntry, this.settings.exportTitle));
+			relatedCiteKeys.push(relatedEntry.citationKey);
+		}
+		if (relatedArray.length == 0) return metadata;
+
+		//add a space after the divided if it is not present
+		let divider = this.settings.multipleFieldsDivider;
+		if (divider.slice(-1) !== " ") {
+			divider = divider + " ";
+		}
+
+		const relatedArrayBracket = relatedArray.map(makeWiki);
+		metadata = replaceTemplate(
+			metadata,
+			`[[{{related}}]]`,
+			String(relatedArrayBracket.join(divider))
+		);
+		metadata = replaceTemplate(
+			metadata,
+			`"{{related}}"`,
+			String(relatedArrayBracket.map(makeQuotes).join(divider))
+		);
+		metadata = replaceTemplate(
+			metadata,
+			`#{{related}}`,
+			String(relatedCiteKeys.map(makeTags).join(divider))
+		);
+		metadata = replaceTemplate(
+			metadata,
+			`{{related}}`,
+			String(relatedArrayBracket.join(divider))
+		);
+		return metadata;
+	}
+
 	// Function to extract the notes added manually
 
 	// Function to import the right template
 
-	importTemplate() {
+	importTemplate(settings: ZoteroDirectSettings = this.settings) {
 		let template = templatePlain;
-		if (this.settings.templateType === "Plain") {
+		if (settings.templateType === "Plain") {
 			template = templatePlain;
-		} else if (this.settings.templateType === "Admonition") {
+		} else if (settings.templateType === "Admonition") {
 			template = templateAdmonition;
-		} else if (this.settings.templateType === "Custom") {
-			template = this.settings.templateContent;
+		} else if (settings.templateType === "Custom") {
+			template = settings.templateContent;
 		}
 
 		return template;
@@ -668,8 +853,12 @@ export default class ZoteroDirectPlugin extends Plugin {
 			config?: Record<string, never>;
 			items?: Reference[];
 			version?: string;
+			creatorTypes?: string[];
 		}
 	) {
+		//Export folder and template of the Zotero source of the entry
+		const settings = getSourceSettings(this.settings, selectedEntry.sourceName);
+
 		//Extract the reference within bracket to faciliate comparison
 		const authorKey = createAuthorKey(selectedEntry.creators);
 		//set the authorkey field (with or without first name) on the entry to use when creating the title and to replace in the template
@@ -678,29 +867,45 @@ export default class ZoteroDirectPlugin extends Plugin {
 		selectedEntry.authorKeyFullName = createAuthorKeyFullName(selectedEntry.creators) ?? ""
 
 		//Load Template
-		const templateNote = this.importTemplate();
+		const templateNote = this.importTemplate(settings);
 		if (this.settings.debugMode) console.debug("[BibNotes] Template:", templateNote);
 
+		//Copy or link the PDF/EPUB attachments into the vault, only when the template uses {{pdfEmbed}} or {{pdfLink}}
+		const usesAttachments = templateNote.includes("{{pdfEmbed}}") || templateNote.includes("{{pdfLink}}");
+		const mirrored = usesAttachments ? await mirrorAttachments(this.app, selectedEntry, {
+			mode: this.settings.attachmentMirror,
+			folder: settings.attachmentMirrorPath || settings.exportPath + "/Attachments",
+		}) : [];
+		let divider = this.settings.multipleFieldsDivider;
+		if (divider.slice(-1) !== " ") divider = divider + " ";
+		//leave the placeholders to the missing field setting when nothing was mirrored
+		selectedEntry.pdfEmbed = mirrored.length > 0 ? mirrored.map(p => `![[${p}]]`).join("\n") : "{{pdfEmbed}}";
+		selectedEntry.pdfLink = mirrored.length > 0 ? mirrored.map(makeWiki).join(divider) : "{{pdfLink}}";
+
 		//Create the metadata
-		let litnote: string = this.parseMetadata(selectedEntry, templateNote);
+		let litnote: string = this.parseMetadata(selectedEntry, templateNote, data.creatorTypes);
 		if (this.settings.debugMode) console.debug("[BibNotes] Entry:", selectedEntry);
 
 		//Extract the list of collections
 		litnote = this.parseCollection(selectedEntry, data, litnote);
 
+		//Link the related items
+		litnote = this.parseRelated(selectedEntry, data, litnote);
+
 
 		//Define the name and path of the file to be exported (vault-relative)
 		const noteRelPath = createNoteTitle(
 			selectedEntry,
-			this.settings.exportTitle,
-			this.settings.exportPath
+			settings.exportTitle,
+			settings.exportPath
 		);
 		// Join the tags in the metadata with the tags extracted in the text and replace them in the text
 		litnote = replaceTagList(
 			selectedEntry,
 			[],
 			litnote,
-			this.settings.multipleFieldsDivider
+			this.settings.multipleFieldsDivider,
+			this.settings.excludeAutomaticTags
 		);
 
 		//delete the missing fields in the metadata
@@ -738,37 +943,159 @@ export default class ZoteroDirectPlugin extends Plugin {
 			await this.app.vault.modify(existingFile, litnote);
 		} else {
 			// Ensure parent folder exists
-			const folderPath = normalizePath(this.settings.exportPath);
+			const folderPath = normalizePath(settings.exportPath);
 			if (folderPath && !(await this.app.vault.adapter.exists(folderPath))) {
 				await this.app.vault.createFolder(folderPath);
 			}
 			await this.app.vault.create(noteRelPath, litnote);
 		}
+		await this.clearDeletedStatus(selectedEntry);
 		new Notice(t().noticeImported(selectedEntry.citationKey));
 	}
 
-	async updateCurrentNote(){
-		if (this.settings.debugMode) console.debug("[BibNotes] Updating Current Note");
+	/**
+	 * Prune the cached items that were trashed or purged in Zotero and apply
+	 * the configured action to their literature notes.
+	 * liveItemKeys are the identities of the items still in Zotero,
+	 * trashedItemKeys those of the items in the Zotero trash.
+	 * sourceName is the Zotero source of the cache, whose export folder holds the notes.
+	 */
+	async syncDeletedItems(
+		cacheManager: ZoteroCacheManager,
+		liveItemKeys: string[],
+		trashedItemKeys: string[],
+		sourceName: string = this.settings.sourceName
+	) {
+		const removed = cacheManager.pruneItems(new Set(liveItemKeys));
+		if (removed.length === 0) return;
+		if (this.settings.debugMode) console.debug("[BibNotes] Items removed from Zotero:", removed.map(item => item.citationKey));
+
+		const action = this.settings.deletedItemAction;
+		if (action === "Do nothing") return;
+
+		const settings = getSourceSettings(this.settings, sourceName);
+		const trashed = new Set(trashedItemKeys);
+		const reportLines: string[] = [];
+		for (const item of removed) {
+			const notePath = createNotePath(item, settings.exportTitle, settings.exportPath);
+			const file = this.app.vault.getAbstractFileByPath(notePath);
+			if (!(file instanceof TFile)) continue;
+			const status = trashed.has(getItemIdentity(item)) ? "trashed" : "deleted";
+
+			if (action === "Add property") {
+				await this.app.fileManager.processFrontMatter(file, (frontmatter: Record<string, unknown>) => {
+					frontmatter["zotero-status"] = status;
+				});
+			} else if (action === "Move to archive folder") {
+				const archivePath = normalizePath(settings.deletedItemArchivePath || settings.exportPath + "/Archive");
+				if (!(await this.app.vault.adapter.exists(archivePath))) {
+					await this.app.vault.createFolder(archivePath);
+				}
+				await this.app.fileManager.renameFile(file, normalizePath(archivePath + "/" + file.name));
+			} else {
+				reportLines.push(`- [[${file.basename}]] (${item.citationKey}): ${status} (${new Date().toISOString().slice(0, 10)})`);
+			}
+		}
 
-		// Check if the database path is set
-		const dbPath = this.settings.zoteroDbPath;
-		if (!dbPath) {
+		if (reportLines.length > 0) {
+			const reportPath = normalizePath(settings.exportPath + "/" + DELETED_ITEMS_REPORT);
+			const report = this.app.vault.getAbstractFileByPath(reportPath);
+			if (report instanceof TFile) {
+				await this.app.vault.append(report, reportLines.join("\n") + "\n");
+			} else {
+				await this.app.vault.create(reportPath, reportLines.join("\n") + "\n");
+			}
+		}
+		new Notice(t().noticeDeletedItems(removed.length));
+	}
+
+	/**
+	 * Remove the zotero-status property of the literature note of an item
+	 * that is in Zotero again (e.g. restored from the trash).
+	 */
+	async clearDeletedStatus(item: Reference) {
+		const settings = getSourceSettings(this.settings, item.sourceName);
+		const file = this.app.vault.getAbstractFileByPath(createNotePath(item, settings.exportTitle, settings.exportPath));
+		if (!(file instanceof TFile)) return;
+		if (this.app.metadataCache.getFileCache(file)?.frontmatter?.["zotero-status"] === undefined) return;
+		await this.app.fileManager.processFrontMatter(file, (frontmatter: Record<string, unknown>) => {
+			delete frontmatter["zotero-status"];
+		});
+	}
+
+	/**
+	 * Write a report note listing the literature notes whose Zotero item
+	 * was flagged as retracted, and open it. Each source reports in its own
+	 * export folder, next to its notes. The report of a folder without
+	 * retracted items is removed, so that it does not list old entries.
+	 */
+	async reportRetractedItems() {
+		const sourceNames = getSourceNames(this.settings);
+		if (sourceNames.length === 0) {
 			new Notice(t().noticeDbNotConfigured);
 			return;
 		}
 
-		let data;
-		// 获取插件目录的绝对路径
-		const vaultBasePath = this.app.vault.adapter instanceof FileSystemAdapter ? this.app.vault.adapter.getBasePath() : "";
-		const pluginDir = vaultBasePath && this.manifest.dir 
-			? vaultBasePath + "/" + this.manifest.dir 
-			: this.manifest.dir || "";
-		try {
-			data = await readZoteroDatabase(dbPath, pluginDir);
-		} catch (e) {
-			new Notice(t().noticeDbReadFailed + (e as Error).message);
-			 
-			console.error(e);
+		// Report lines per export folder (sources may share one)
+		const reportLinesByFolder = new Map<string, string[]>();
+		let noteCount = 0;
+		for (const sourceName of sourceNames) {
+			const settings = getSourceSettings(this.settings, sourceName);
+			let data;
+			try {
+				// Retraction flags do not change the items: always do a full read
+				data = await this.getDataSource(sourceName).read();
+			} catch (e) {
+				new Notice(t().noticeDbReadFailed + (e as Error).message);
+				console.error(e);
+				return;
+			}
+
+			const folderPath = normalizePath(settings.exportPath);
+			const reportLines = reportLinesByFolder.get(folderPath) ?? [];
+			for (const item of data.items) {
+				if (!item.isRetracted) continue;
+				const notePath = createNotePath(item, settings.exportTitle, settings.exportPath);
+				const file = this.app.vault.getAbstractFileByPath(notePath);
+				if (!(file instanceof TFile)) continue;
+				reportLines.push(`- [[${file.basename}]] (${item.citationKey}): ${t().retractedNotice(item.retractionDate)}`);
+				noteCount++;
+			}
+			reportLinesByFolder.set(folderPath, reportLines);
+		}
+		new Notice(t().noticeRetractedNotes(noteCount));
+
+		let firstReport: TFile | null = null;
+		for (const [folderPath, reportLines] of reportLinesByFolder) {
+			const reportPath = normalizePath(folderPath + "/" + RETRACTED_ITEMS_REPORT);
+			let report = this.app.vault.getAbstractFileByPath(reportPath);
+			if (reportLines.length === 0) {
+				if (report instanceof TFile) await this.app.fileManager.trashFile(report);
+				continue;
+			}
+			if (folderPath && !(await this.app.vault.adapter.exists(folderPath))) {
+				await this.app.vault.createFolder(folderPath);
+			}
+			const content = reportLines.join("\n") + "\n";
+			if (report instanceof TFile) {
+				await this.app.vault.modify(report, content);
+			} else {
+				report = await this.app.vault.create(reportPath, content);
+			}
+			if (!firstReport && report instanceof TFile) firstReport = report;
+		}
+		if (firstReport) {
+			await this.app.workspace.getLeaf(true).openFile(firstReport);
+		}
+	}
+
+	async updateCurrentNote(){
+		if (this.settings.debugMode) console.debug("[BibNotes] Updating Current Note");
+
+		// Check if the database path is set
+		const sourceNames = getSourceNames(this.settings);
+		if (sourceNames.length === 0) {
+			new Notice(t().noticeDbNotConfigured);
 			return;
 		}
 
@@ -782,29 +1109,39 @@ export default class ZoteroDirectPlugin extends Plugin {
 		const noteTitleFormat = this.settings.exportTitle+'.md'
 
 		const citeKey = parseCiteKeyFromNoteName(currentNoteName, noteTitleFormat);
-	
-		if (citeKey != null){
-			// find entry in library using citeKey
-			const entryIndex = data.items.findIndex(
-				(item: { citationKey: string }) =>
-					item.citationKey ===
-					citeKey
-			);
-			if (entryIndex!=-1){
-				// update current note
-				const currentEntry = data.items[entryIndex];
-			if (!currentEntry) {
-				new Notice(t().noticeCurrentNoteNotFound(currentNoteName));
+		if (citeKey == null) {
+			new Notice(t().noticeCiteKeyNotFound(currentNoteName));
+			return;
+		}
+
+		// Look for the entry in each source, preferring the source whose export folder holds the note
+		let found: { entry: Reference; data: ZoteroData } | null = null;
+		for (const sourceName of sourceNames) {
+			const settings = getSourceSettings(this.settings, sourceName);
+			let data: ZoteroData;
+			try {
+				data = await this.getDataSource(sourceName).read();
+			} catch (e) {
+				new Notice(t().noticeDbReadFailed + (e as Error).message);
+				 
+				console.error(e);
 				return;
 			}
-				await this.createNote(currentEntry, data);
-				new Notice(t().noticeCurrentNoteUpdated(currentNoteName));
+			const entry = data.items.find((item) => item.citationKey === citeKey);
+			if (!entry) continue;
+			entry.sourceName = sourceName;
+			if (!found) found = { entry, data };
+			if (createNotePath(entry, settings.exportTitle, settings.exportPath) === activeFile.path) {
+				found = { entry, data };
+				break;
 			}
-			else{
-				new Notice(t().noticeCurrentNoteNotFound(currentNoteName));
-			}
-		}else{
-			new Notice(t().noticeCiteKeyNotFound(currentNoteName));
 		}
+
+		if (!found) {
+			new Notice(t().noticeCurrentNoteNotFound(currentNoteName));
+			return;
+		}
+		await this.createNote(found.entry, found.data);
+		new Notice(t().noticeCurrentNoteUpdated(currentNoteName));
 	}
 }
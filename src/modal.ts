@@ -1,5 +1,5 @@
 import MyPlugin from "./main";
-import { App, FileSystemAdapter, Modal, SuggestModal, Notice, Platform, Setting } from "obsidian";
+import { App, DropdownComponent, Modal, SuggestModal, Notice, Platform, Setting } from "obsidian";
 
 import { Reference, Creator } from "./types";
 import { t } from "./i18n";
@@ -12,6 +12,8 @@ interface MatchInfo {
 	citeKeyMatches: Array<{start: number, end: number}>;
 	abstractMatch: { text: string; index: number; keyword: string } | null;
 	tagsMatch: { text: string; index: number; keyword: string } | null;
+	// Words found in the full text of the attachments (ft: queries)
+	fullTextMatch?: string[];
 }
 
 // Scored search result combining reference data with match info
@@ -21,20 +23,6 @@ interface ScoredReference {
 	matchInfo: MatchInfo;
 }
 
-// Pre-computed search data for fast matching
-interface SearchableItem {
-	item: Reference;
-	titleLower: string;
-	authorLower: string;
-	authorOriginal: string;
-	journalLower: string;
-	citeKeyLower: string;
-	abstractLower: string;
-	abstractOriginal: string;
-	tagsLower: string;
-	tagsOriginal: string;
-}
-
 import {
 	createAuthorKey,
 	createNoteTitle,
@@ -42,8 +30,12 @@ import {
 	orderByDateModified,
 } from "./utils";
 
-import { readZoteroDatabase, readZoteroDatabaseIncremental, ZoteroData } from "./zotero-db";
-import { getCacheManager, CachedReference } from "./zotero-cache";
+import { FullTextIndex } from "./zotero-db";
+import { getItemIdentity, ZoteroData } from "./zotero-reader";
+import { CachedReference } from "./zotero-cache";
+import { getSavedSearchItems } from "./zotero-search";
+import { tokenize } from "./zotero-search-index";
+import { getSourceCacheManager, getSourceNames, getSourceSettings, setLastUpdateDate } from "./zotero-sources";
 
 
 export class SelectReferenceModal extends SuggestModal<ScoredReference> {
@@ -51,22 +43,36 @@ export class SelectReferenceModal extends SuggestModal<ScoredReference> {
 	template: string;
 	selectArray: Reference[];
 	allCitationKeys: string[];
-	data: ZoteroData;
+	// Data of each Zotero source, by source name
+	sourceData: Record<string, ZoteroData> = {};
+	// Show the source of each suggestion (only when several sources are configured)
+	private showSourceBadge = false;
 	// Store current query for highlight rendering
 	private currentQuery: string = "";
-	// Pre-computed search index for fast matching
-	private searchIndex: SearchableItem[] = [];
+	// References of the picker by "<sourceName>:<identity>", to look up search results
+	private searchIndex = new Map<string, Reference>();
 	// Search results cache and debounce for non-blocking UX
 	private searchCache: ScoredReference[] = [];
 	private lastSearchQuery: string = "";
 	private searchDebounceTimer: number | null = null;
-	private lastSearchSet: SearchableItem[] | null = null;
 	private static readonly MAX_RESULTS = 50;
+	// Queries starting with this prefix search the full text of the attachments
+	private static readonly FULL_TEXT_PREFIX = "ft:";
+	// Zotero full-text index of each source, opened on the first full-text query
+	private fullTextIndexes: Record<string, FullTextIndex | null> = {};
+	// All references before the library filter is applied
+	private allReferences: Reference[] = [];
+	// libraryID selected in the library dropdown ("" = all libraries)
+	private libraryFilter: string = "";
+	// Saved search selected in the saved search dropdown ("" = all items)
+	private savedSearchFilter: string = "";
 
 	constructor(app: App, plugin: MyPlugin) {
 		super(app);
 		this.plugin = plugin;
 		this.emptyStateText = t().noSearchResult;
+		this.libraryFilter = plugin.settings.libraryFilter;
+		this.savedSearchFilter = plugin.settings.savedSearchFilter;
 	}
 	// Function used to move the cursor in the search bar when the modal is launched
 	focusInput() {
@@ -78,70 +84,19 @@ export class SelectReferenceModal extends SuggestModal<ScoredReference> {
 			this.focusInput();
 		}
 
-		// Read Zotero database with cache
-		const dbPath = this.plugin.settings.zoteroDbPath;
-		if (!dbPath) {
+		// Read the Zotero databases with cache
+		const sourceNames = getSourceNames(this.plugin.settings);
+		if (sourceNames.length === 0) {
 			new Notice(t().noticeDbNotConfigured);
 			return;
 		}
 
-		// Initialize cache manager
-		const cacheManager = getCacheManager(this.app, dbPath);
-		await cacheManager.loadCache();
-
-		let data: ZoteroData;
-		let cachedItems: CachedReference[] = [];
-
+		const items: Reference[] = [];
 		try {
-			// Check if database has changed
-			const hasChanges = cacheManager.hasDbChanged();
-			
-			if (!hasChanges && cacheManager.getCache()) {
-				// Use cached data
-				const cache = cacheManager.getCache()!;
-				cachedItems = cache.items;
-				data = { items: cachedItems as Reference[], collections: cache.collections };
-				if (this.plugin.settings.debugMode) console.debug("[BibNotes] Using cached data:", cachedItems.length, "items");
-			} else {
-				// Check for incremental update
-				const cache = cacheManager.getCache();
-				// 获取插件目录的绝对路径
-				const adapter = this.app.vault.adapter;
-				const vaultBasePath = adapter instanceof FileSystemAdapter ? adapter.getBasePath() : "";
-				const pluginDir = vaultBasePath && this.plugin.manifest.dir 
-					? vaultBasePath + "/" + this.plugin.manifest.dir 
-					: this.plugin.manifest.dir || "";
-				if (cache && cache.dbLastModified > 0) {
-					// Try incremental update
-					const update = await readZoteroDatabaseIncremental(dbPath, cache.dbLastModified, {}, pluginDir);
-					
-					if (update && update.items.length > 0) {
-						// Merge updates into cache
-						cacheManager.updateCache(
-							update.items as CachedReference[],
-							update.collections,
-							update.updatedItemKeys
-						);
-						await cacheManager.saveCache();
-						cachedItems = cacheManager.getCache()!.items;
-						data = { items: cachedItems as Reference[], collections: update.collections };
-						if (this.plugin.settings.debugMode) console.debug("[BibNotes] Incremental update:", update.items.length, "items updated");
-					} else {
-						// No changes or failed incremental, do full refresh
-						data = await readZoteroDatabase(dbPath, pluginDir);
-						cacheManager.updateCache(data.items as CachedReference[], data.collections);
-						await cacheManager.saveCache();
-						cachedItems = data.items as CachedReference[];
-						if (this.plugin.settings.debugMode) console.debug("[BibNotes] Full refresh:", data.items.length, "items");
-					}
-				} else {
-					// No cache or first time, do full read
-					data = await readZoteroDatabase(dbPath, pluginDir);
-					cacheManager.updateCache(data.items as CachedReference[], data.collections);
-					await cacheManager.saveCache();
-					cachedItems = data.items as CachedReference[];
-					if (this.plugin.settings.debugMode) console.debug("[BibNotes] Initial cache:", data.items.length, "items");
-				}
+			for (const sourceName of sourceNames) {
+				const sourceData = await this.loadSource(sourceName);
+				this.sourceData[sourceName] = sourceData;
+				items.push(...sourceData.items);
 			}
 		} catch (e) {
 			new Notice(t().noticeDbReadFailed + (e as Error).message);
@@ -149,18 +104,28 @@ export class SelectReferenceModal extends SuggestModal<ScoredReference> {
 			console.error(e);
 			return;
 		}
+		this.showSourceBadge = sourceNames.length > 1;
 
 		//const checkAdmonition  = this.app.plugins.getPlugin("obsidian-admonition")._loaded
 
 		const bibtexArray: Reference[] = [];
-		for (let index = 0; index < data.items.length; index++) {
-			const selectedEntry = data.items[index];
+		for (let index = 0; index < items.length; index++) {
+			const selectedEntry = items[index];
 			if (!selectedEntry) continue;
 			const bibtexArrayItem = {} as Reference;
 
 			//Extract the citation key. If the citationkey does not exist skip
 			if (!Object.prototype.hasOwnProperty.call(selectedEntry, "citationKey")) continue;
 			bibtexArrayItem.citationKey = selectedEntry.citationKey;
+			bibtexArrayItem.citationKeyGenerated = selectedEntry.citationKeyGenerated;
+			bibtexArrayItem.isRetracted = selectedEntry.isRetracted;
+			bibtexArrayItem.retractionDate = selectedEntry.retractionDate;
+
+			//Keep the identity of the item (item keys are unique only within a library)
+			bibtexArrayItem.itemKey = selectedEntry.itemKey;
+			bibtexArrayItem.libraryID = selectedEntry.libraryID;
+			bibtexArrayItem.libraryName = selectedEntry.libraryName;
+			bibtexArrayItem.sourceName = selectedEntry.sourceName;
 
 			//Extract the title key
 			bibtexArrayItem.title = selectedEntry.title;
@@ -187,6 +152,9 @@ export class SelectReferenceModal extends SuggestModal<ScoredReference> {
 			// Store full creators array for display
 			bibtexArrayItem.creators = selectedEntry.creators;
 
+			//Extract the tags for search context
+			bibtexArrayItem.tags = selectedEntry.tags;
+
 			//Extract the date the entry was modified
 			bibtexArrayItem.dateModified = selectedEntry.dateModified;
 
@@ -210,10 +178,19 @@ export class SelectReferenceModal extends SuggestModal<ScoredReference> {
 
 		// Removed: "Entire Library" option - no longer added to dropdown
 
-		this.selectArray = bibtexArray;
-		this.data = data;
+		// Libraries and saved searches of all sources, for the filters
+		const sourceData = Object.values(this.sourceData);
+		const libraries = Object.assign({}, ...sourceData.map(d => d.libraries)) as ZoteroData["libraries"];
+		const savedSearches = Object.assign({}, ...sourceData.map(d => d.savedSearches)) as ZoteroData["savedSearches"];
+
+		this.allReferences = bibtexArray;
+		if (!savedSearches[this.savedSearchFilter]) this.savedSearchFilter = "";
+		this.selectArray = this.applyFilters(bibtexArray);
 
-		// Build pre-computed search index for fast matching
+		// Show the library / saved search filters when there is something to choose from
+		this.renderFilters({ libraries, savedSearches });
+
+		// Map the references to the results of the search indexes
 		this.buildSearchIndex();
 
 		// 数据加载完成后，延迟触发一次建议刷新
@@ -226,31 +203,160 @@ export class SelectReferenceModal extends SuggestModal<ScoredReference> {
 
 
 	/**
-	 * Build pre-computed search index with lowercase fields.
-	 * Called once after data loading to avoid repeated toLowerCase() during search.
+	 * Read the items of a Zotero source, from its cache when the database
+	 * has not changed, otherwise with an incremental or a full read.
 	 */
-	private buildSearchIndex(): void {
-		this.searchIndex = this.selectArray.map(item => {
-			const authorOriginal = item.authorKeyFullName || item.authorKey || "";
-			const abstractOriginal = item.abstractNote || "";
-			const tagsOriginal = item.zoteroTags?.join(" ") || "";
-			return {
-				item,
-				titleLower: (item.title || "").toLowerCase(),
-				authorLower: authorOriginal.toLowerCase(),
-				authorOriginal,
-				journalLower: (item.publicationTitle || "").toLowerCase(),
-				citeKeyLower: (item.citationKey || "").toLowerCase(),
-				abstractLower: abstractOriginal.toLowerCase(),
-				abstractOriginal,
-				tagsLower: tagsOriginal.toLowerCase(),
-				tagsOriginal,
-			};
+	private async loadSource(sourceName: string): Promise<ZoteroData> {
+		const source = this.plugin.getDataSource(sourceName);
+
+		// Initialize cache manager
+		const cacheManager = getSourceCacheManager(this.app, this.plugin.settings, sourceName);
+		await cacheManager.loadCache();
+
+		let data: ZoteroData;
+		let cachedItems: CachedReference[] = [];
+
+		// Check if database has changed
+		const hasChanges = cacheManager.hasDbChanged();
+		
+		if (!hasChanges && cacheManager.getCache()) {
+			// Use cached data
+			const cache = cacheManager.getCache()!;
+			cachedItems = cache.items;
+			data = { items: cachedItems as Reference[], collections: cache.collections, libraries: cache.libraries, savedSearches: cache.savedSearches, trashedItemKeys: [], liveItemKeys: cachedItems.map(getItemIdentity), missingCitationKeyCount: 0, creatorTypes: cache.creatorTypes, watermark: cache.watermark };
+			if (this.plugin.settings.debugMode) console.debug("[BibNotes] Using cached data:", cachedItems.length, "items");
+		} else {
+			// Check for incremental update
+			const cache = cacheManager.getCache();
+			if (cache && cache.watermark) {
+				// Try incremental update
+				const update = await source.readChanges(cache.watermark);
+				
+				if (update) {
+					// Drop the items removed from Zotero, then merge updates into cache
+					await this.plugin.syncDeletedItems(cacheManager, update.liveItemKeys, update.trashedItemKeys, sourceName);
+					cacheManager.updateCache(
+						update.items as CachedReference[],
+						update.collections,
+						update.libraries,
+						update.savedSearches,
+						update.creatorTypes,
+						update.watermark,
+						update.updatedItemKeys
+					);
+					await cacheManager.saveCache();
+					cachedItems = cacheManager.getCache()!.items;
+					data = { items: cachedItems as Reference[], collections: update.collections, libraries: update.libraries, savedSearches: update.savedSearches, trashedItemKeys: update.trashedItemKeys, liveItemKeys: update.liveItemKeys, missingCitationKeyCount: 0, creatorTypes: update.creatorTypes, watermark: update.watermark };
+					if (this.plugin.settings.debugMode) console.debug("[BibNotes] Incremental update:", update.items.length, "items updated");
+				} else {
+					// Changes that need a full read (erased items, generated citation keys, exports)
+					data = await source.read();
+					this.plugin.notifyMissingCitationKeys(data.missingCitationKeyCount);
+					await this.plugin.syncDeletedItems(cacheManager, data.liveItemKeys, data.trashedItemKeys, sourceName);
+					cacheManager.updateCache(data.items as CachedReference[], data.collections, data.libraries, data.savedSearches, data.creatorTypes, data.watermark);
+					await cacheManager.saveCache();
+					cachedItems = data.items as CachedReference[];
+					if (this.plugin.settings.debugMode) console.debug("[BibNotes] Full refresh:", data.items.length, "items");
+				}
+			} else {
+				// No cache or first time, do full read
+				data = await source.read();
+				this.plugin.notifyMissingCitationKeys(data.missingCitationKeyCount);
+				cacheManager.updateCache(data.items as CachedReference[], data.collections, data.libraries, data.savedSearches, data.creatorTypes, data.watermark);
+				await cacheManager.saveCache();
+				cachedItems = data.items as CachedReference[];
+				if (this.plugin.settings.debugMode) console.debug("[BibNotes] Initial cache:", data.items.length, "items");
+			}
+		}
+
+		// Items remember their source (for the export folder and template of their note)
+		for (const item of data.items) item.sourceName = sourceName;
+		return data;
+	}
+
+	/**
+	 * Keep only the references of the library and saved search selected in the filters.
+	 */
+	private applyFilters(references: Reference[]): Reference[] {
+		let filtered = references;
+		if (this.libraryFilter) {
+			const libraryID = Number(this.libraryFilter);
+			filtered = filtered.filter(item => item.libraryID === libraryID);
+		}
+		if (this.savedSearchFilter) {
+			// A saved search only matches items of the source it belongs to
+			const matchesBySource: Record<string, Set<string>> = {};
+			for (const [sourceName, data] of Object.entries(this.sourceData)) {
+				if (data.savedSearches[this.savedSearchFilter]) {
+					matchesBySource[sourceName] = getSavedSearchItems(data, this.savedSearchFilter);
+				}
+			}
+			filtered = filtered.filter(item => matchesBySource[item.sourceName]?.has(getItemIdentity(item)));
+		}
+		return filtered;
+	}
+
+	/**
+	 * Add dropdowns next to the search input to restrict the results to a
+	 * single library (only when there is more than one library) or to a
+	 * Zotero saved search (only when saved searches exist).
+	 */
+	private renderFilters(data: Pick<ZoteroData, "libraries" | "savedSearches">): void {
+		// Feeds are only listed when their items are imported
+		const libraries = Object.values(data.libraries || {})
+			.filter(l => l.type !== "feed" || this.plugin.settings.importFeedItems);
+		const savedSearches = Object.entries(data.savedSearches || {});
+		const containerEl = this.inputEl.parentElement;
+		if ((libraries.length < 2 && savedSearches.length === 0) || !containerEl) return;
+
+		const filterEl = containerEl.createDiv({ cls: 'bibnotes-library-filter' });
+		const refresh = () => {
+			this.selectArray = this.applyFilters(this.allReferences);
+			this.buildSearchIndex();
+			this.inputEl.dispatchEvent(new Event('input'));
+			this.inputEl.focus();
+		};
+
+		if (savedSearches.length > 0) {
+			const dropdown = new DropdownComponent(filterEl);
+			dropdown.addOption("", t().savedSearchFilterNone);
+			for (const [identity, search] of savedSearches) {
+				dropdown.addOption(identity, search.name);
+			}
+			dropdown.setValue(this.savedSearchFilter);
+			dropdown.onChange((value) => {
+				this.savedSearchFilter = value;
+				refresh();
+			});
+		}
+
+		if (libraries.length < 2) return;
+		const dropdown = new DropdownComponent(filterEl);
+		dropdown.addOption("", t().libraryFilterAll);
+		for (const library of libraries) {
+			dropdown.addOption(String(library.libraryID), library.name);
+		}
+		if (!libraries.some(l => String(l.libraryID) === this.libraryFilter)) {
+			this.libraryFilter = "";
+		}
+		dropdown.setValue(this.libraryFilter);
+		dropdown.onChange((value) => {
+			this.libraryFilter = value;
+			refresh();
 		});
+	}
+
+	/**
+	 * Map the references of the picker to their identity. The words are
+	 * indexed by the cache of each source (see zotero-search-index.ts), so
+	 * that opening the picker does not process every item.
+	 */
+	private buildSearchIndex(): void {
+		this.searchIndex = new Map(this.selectArray.map(item =>
+			[`${item.sourceName}:${getItemIdentity(item)}`, item] as const));
 		// Reset search state
 		this.searchCache = [];
 		this.lastSearchQuery = "";
-		this.lastSearchSet = null;
 	}
 
 	/**
@@ -274,7 +380,6 @@ export class SelectReferenceModal extends SuggestModal<ScoredReference> {
 		if (!query || query.trim() === "") {
 			this.cancelPendingSearch();
 			this.lastSearchQuery = "";
-			this.lastSearchSet = null;
 			this.searchCache = this.selectArray.map(item => ({
 				reference: item,
 				score: 0,
@@ -293,6 +398,22 @@ export class SelectReferenceModal extends SuggestModal<ScoredReference> {
 
 		// Schedule actual search after debounce (non-blocking)
 		const capturedQuery = query;
+		if (query.trim().toLowerCase().startsWith(SelectReferenceModal.FULL_TEXT_PREFIX)) {
+			this.searchDebounceTimer = window.setTimeout(() => {
+				this.searchDebounceTimer = null;
+				void this.performFullTextSearch(capturedQuery).then((results) => {
+					// Ignore results of a query the user has already changed
+					if (capturedQuery !== this.currentQuery) return;
+					this.searchCache = results;
+					this.lastSearchQuery = capturedQuery;
+					if (this.inputEl) {
+						this.inputEl.dispatchEvent(new Event('input'));
+					}
+				});
+			}, 250);
+			return this.searchCache;
+		}
+
 		this.searchDebounceTimer = window.setTimeout(() => {
 			this.searchDebounceTimer = null;
 			this.searchCache = this.performSearch(capturedQuery);
@@ -308,15 +429,13 @@ export class SelectReferenceModal extends SuggestModal<ScoredReference> {
 	}
 
 	/**
-	 * Perform the actual search with optimized scoring.
-	 * Uses pre-computed search index and incremental filtering.
+	 * Perform the actual search in the search indexes of the sources.
+	 * Match info for highlighting is only computed for the results shown.
 	 */
 	private performSearch(query: string): ScoredReference[] {
-		const lowerQuery = query.toLowerCase().trim();
-		const keywords = lowerQuery.split(/\s+/).filter(kw => kw.length > 0);
+		const keywords = tokenize(query);
 
 		if (keywords.length === 0) {
-			this.lastSearchSet = null;
 			return this.selectArray.map(item => ({
 				reference: item,
 				score: 0,
@@ -324,55 +443,77 @@ export class SelectReferenceModal extends SuggestModal<ScoredReference> {
 			}));
 		}
 
-		// Incremental search: if query extends previous, search within previous matches only
-		let searchSet: SearchableItem[];
-		const prevQuery = this.lastSearchQuery?.toLowerCase().trim();
-		if (prevQuery && lowerQuery.startsWith(prevQuery) && this.lastSearchSet &&
-			this.lastSearchSet.length < this.searchIndex.length) {
-			searchSet = this.lastSearchSet;
-		} else {
-			searchSet = this.searchIndex;
-		}
-
-		const scoredItems: { item: Reference; score: number; matchInfo: MatchInfo }[] = [];
-		const matchedItems: SearchableItem[] = [];
-
-		for (const si of searchSet) {
-			const result = this.scoreItem(si, keywords);
-			if (result.score > 0) {
-				scoredItems.push({
-					item: si.item,
-					score: result.score,
-					matchInfo: result.matchInfo
-				});
-				matchedItems.push(si);
+		const scoredItems: { reference: Reference; score: number; matchesAllKeywords: boolean }[] = [];
+		for (const sourceName of Object.keys(this.sourceData)) {
+			const searchIndex = getSourceCacheManager(this.app, this.plugin.settings, sourceName).getSearchIndex();
+			if (!searchIndex) continue;
+			for (const { identity, score, matchesAllKeywords } of searchIndex.search(query)) {
+				// Items left out by the filters are not in the picker
+				const reference = this.searchIndex.get(`${sourceName}:${identity}`);
+				if (reference) scoredItems.push({ reference, score, matchesAllKeywords });
 			}
 		}
 
-		// Save matched set for incremental search on next keystroke
-		this.lastSearchSet = matchedItems;
-
-		// Sort by score descending and cap results
-		scoredItems.sort((a, b) => b.score - a.score);
+		// Items matching every keyword first, then by score descending, and cap results
+		scoredItems.sort((a, b) => {
+			if (a.matchesAllKeywords !== b.matchesAllKeywords) return a.matchesAllKeywords ? -1 : 1;
+			return b.score - a.score;
+		});
 		const limited = scoredItems.slice(0, SelectReferenceModal.MAX_RESULTS);
 
-		return limited.map(({ item, score, matchInfo }) => ({
-			reference: item,
+		return limited.map(({ reference, score }) => ({
+			reference,
 			score,
-			matchInfo
+			matchInfo: this.getMatchInfo(reference, keywords)
 		}));
 	}
 
 	/**
-	 * Score a single item against keywords using pre-computed lowercase fields.
-	 * No RegExp creation — uses manual word boundary checks for speed.
+	 * Search the full-text index of Zotero ("ft:" queries). Attachments are
+	 * mapped back to their parent items, ranked by the number of query words
+	 * found in their full text.
 	 */
-	private scoreItem(si: SearchableItem, keywords: string[]): {
-		score: number;
-		matchInfo: MatchInfo;
-	} {
-		let totalScore = 0;
-		let matchedKeywords = 0;
+	private async performFullTextSearch(query: string): Promise<ScoredReference[]> {
+		const words = query.trim().slice(SelectReferenceModal.FULL_TEXT_PREFIX.length)
+			.toLowerCase().split(/\s+/).filter(word => word.length > 0);
+		if (words.length === 0) return [];
+
+		try {
+			const matchesBySource: Record<string, Map<string, string[]>> = {};
+			for (const sourceName of Object.keys(this.sourceData)) {
+				// Sources without a full-text index (exports) are remembered as null
+				if (!(sourceName in this.fullTextIndexes)) {
+					this.fullTextIndexes[sourceName] = await this.plugin.getDataSource(sourceName).openFullTextIndex();
+				}
+				const fullTextIndex = this.fullTextIndexes[sourceName];
+				if (fullTextIndex) matchesBySource[sourceName] = await fullTextIndex.search(words);
+			}
+
+			const scoredItems: ScoredReference[] = [];
+			for (const item of this.selectArray) {
+				const matchedWords = matchesBySource[item.sourceName]?.get(getItemIdentity(item));
+				if (!matchedWords) continue;
+				let score = matchedWords.length * 100;
+				if (matchedWords.length === words.length && words.length > 1) score *= 1.5;
+				scoredItems.push({
+					reference: item,
+					score,
+					matchInfo: { titleMatches: [], authorMatches: [], journalMatches: [], citeKeyMatches: [], abstractMatch: null, tagsMatch: null, fullTextMatch: matchedWords }
+				});
+			}
+			scoredItems.sort((a, b) => b.score - a.score);
+			return scoredItems.slice(0, SelectReferenceModal.MAX_RESULTS);
+		} catch (e) {
+			new Notice(t().noticeDbReadFailed + (e as Error).message);
+			console.error(e);
+			return [];
+		}
+	}
+
+	/**
+	 * Find where the keywords occur in the fields shown in a suggestion.
+	 */
+	private getMatchInfo(reference: Reference, keywords: string[]): MatchInfo {
 		const matchInfo: MatchInfo = {
 			titleMatches: [],
 			authorMatches: [],
@@ -381,97 +522,29 @@ export class SelectReferenceModal extends SuggestModal<ScoredReference> {
 			abstractMatch: null,
 			tagsMatch: null
 		};
+		const titleLower = (reference.title || "").toLowerCase();
+		const authorLower = (reference.authorKeyFullName || reference.authorKey || "").toLowerCase();
+		const journalLower = (reference.publicationTitle || "").toLowerCase();
+		const citeKeyLower = (reference.citationKey || "").toLowerCase();
+		const tagsOriginal = (reference.tags ?? []).map(t => t.tag).join(" ");
+		const abstractOriginal = reference.abstractNote || "";
 
 		for (const keyword of keywords) {
-			let keywordScore = 0;
-			let keywordMatched = false;
-			let idx: number;
-
-			// Title (weight: 100)
-			idx = si.titleLower.indexOf(keyword);
-			if (idx !== -1) {
-				keywordMatched = true;
-				let s = 100;
-				if (this.isWordBoundaryMatch(si.titleLower, idx, keyword.length)) s *= 1.5;
-				if (idx === 0) s *= 2;
-				keywordScore += s;
-				this.collectRanges(si.titleLower, keyword, matchInfo.titleMatches);
-			}
-
-			// Author (weight: 80)
-			idx = si.authorLower.indexOf(keyword);
-			if (idx !== -1) {
-				keywordMatched = true;
-				let s = 80;
-				if (this.isWordBoundaryMatch(si.authorLower, idx, keyword.length)) s *= 1.5;
-				if (idx === 0) s *= 2;
-				keywordScore += s;
-				this.collectRanges(si.authorLower, keyword, matchInfo.authorMatches);
-			}
-
-			// Journal (weight: 60)
-			idx = si.journalLower.indexOf(keyword);
-			if (idx !== -1) {
-				keywordMatched = true;
-				let s = 60;
-				if (this.isWordBoundaryMatch(si.journalLower, idx, keyword.length)) s *= 1.5;
-				keywordScore += s;
-				this.collectRanges(si.journalLower, keyword, matchInfo.journalMatches);
-			}
-
-			// Citation Key (weight: 50)
-			idx = si.citeKeyLower.indexOf(keyword);
-			if (idx !== -1) {
-				keywordMatched = true;
-				let s = 50;
-				if (this.isWordBoundaryMatch(si.citeKeyLower, idx, keyword.length)) s *= 1.5;
-				keywordScore += s;
-				this.collectRanges(si.citeKeyLower, keyword, matchInfo.citeKeyMatches);
-			}
-
-			// Tags (weight: 40)
-			if (si.tagsLower.length > 0) {
-				idx = si.tagsLower.indexOf(keyword);
-				if (idx !== -1) {
-					keywordMatched = true;
-					let s = 40;
-					if (this.isWordBoundaryMatch(si.tagsLower, idx, keyword.length)) s *= 1.5;
-					keywordScore += s;
-					if (!matchInfo.tagsMatch) {
-						matchInfo.tagsMatch = { text: si.tagsOriginal, index: idx, keyword };
-					}
-				}
-			}
-
-			// Abstract (weight: 30)
-			if (si.abstractLower.length > 0) {
-				idx = si.abstractLower.indexOf(keyword);
-				if (idx !== -1) {
-					keywordMatched = true;
-					let s = 30;
-					if (this.isWordBoundaryMatch(si.abstractLower, idx, keyword.length)) s *= 1.5;
-					keywordScore += s;
-					if (!matchInfo.abstractMatch) {
-						matchInfo.abstractMatch = { text: si.abstractOriginal, index: idx, keyword };
-					}
-				}
+			this.collectRanges(titleLower, keyword, matchInfo.titleMatches);
+			this.collectRanges(authorLower, keyword, matchInfo.authorMatches);
+			this.collectRanges(journalLower, keyword, matchInfo.journalMatches);
+			this.collectRanges(citeKeyLower, keyword, matchInfo.citeKeyMatches);
+
+			let idx = tagsOriginal.toLowerCase().indexOf(keyword);
+			if (idx !== -1 && !matchInfo.tagsMatch) {
+				matchInfo.tagsMatch = { text: tagsOriginal, index: idx, keyword };
 			}
-
-			if (keywordMatched) {
-				totalScore += keywordScore;
-				matchedKeywords++;
+			idx = abstractOriginal.toLowerCase().indexOf(keyword);
+			if (idx !== -1 && !matchInfo.abstractMatch) {
+				matchInfo.abstractMatch = { text: abstractOriginal, index: idx, keyword };
 			}
 		}
-
-		// Bonus for matching all keywords
-		if (matchedKeywords === keywords.length && keywords.length > 1) {
-			totalScore *= 1.5;
-		}
-
-		return {
-			score: matchedKeywords > 0 ? totalScore : 0,
-			matchInfo
-		};
+		return matchInfo;
 	}
 
 	/**
@@ -485,25 +558,6 @@ export class SelectReferenceModal extends SuggestModal<ScoredReference> {
 		}
 	}
 
-	/**
-	 * Check if a match is at a word boundary (without creating RegExp)
-	 */
-	private isWordBoundaryMatch(text: string, index: number, length: number): boolean {
-		const before = index === 0 || !this.isWordChar(text.charCodeAt(index - 1));
-		const after = index + length >= text.length || !this.isWordChar(text.charCodeAt(index + length));
-		return before && after;
-	}
-
-	/**
-	 * Check if a character code is a word character (a-z, A-Z, 0-9, _)
-	 */
-	private isWordChar(code: number): boolean {
-		return (code >= 65 && code <= 90) ||   // A-Z
-			(code >= 97 && code <= 122) ||  // a-z
-			(code >= 48 && code <= 57) ||   // 0-9
-			code === 95;                     // _
-	}
-
 	/**
 	 * Custom render for suggestion items with modern UI design
 	 */
@@ -518,6 +572,10 @@ export class SelectReferenceModal extends SuggestModal<ScoredReference> {
 
 		// Row 1: Title
 		const titleRow = container.createDiv({ cls: 'bibnotes-suggestion-title-row' });
+		if (reference.isRetracted) {
+			const retractedEl = titleRow.createSpan({ cls: 'bibnotes-retracted-badge', text: t().labelRetracted });
+			retractedEl.setAttribute('title', t().retractedNotice(reference.retractionDate));
+		}
 		const titleEl = titleRow.createDiv({ cls: 'bibnotes-suggestion-title' });
 		if (matchInfo?.titleMatches && matchInfo.titleMatches.length > 0) {
 			this.renderHighlightedWithRanges(titleEl, reference.title || "Untitled", matchInfo.titleMatches);
@@ -566,8 +624,16 @@ export class SelectReferenceModal extends SuggestModal<ScoredReference> {
 				journalEl.setText(metaText);
 			}
 		}
+		// Source badge (only when several Zotero sources are configured)
+		if (this.showSourceBadge) {
+			journalRow.createSpan({ cls: 'bibnotes-source-badge', text: reference.sourceName });
+		}
 		// Citation Key on the right (tail 6 always shown, show max leading chars)
 		const citeKeyEl = journalRow.createDiv({ cls: 'bibnotes-suggestion-citekey' });
+		if (reference.citationKeyGenerated) {
+			citeKeyEl.addClass('bibnotes-citekey-generated');
+			citeKeyEl.setAttribute('title', t().labelGeneratedCitationKey);
+		}
 		const fullKey = reference.citationKey;
 		const TAIL = 6;
 		const MAX_DISPLAY = 38; // max total chars to display
@@ -589,8 +655,12 @@ export class SelectReferenceModal extends SuggestModal<ScoredReference> {
 			}
 		}
 
-		// Row 4: Abstract or Tags match context (if matched in these fields)
-		if (matchInfo?.abstractMatch || matchInfo?.tagsMatch) {
+		// Row 4: Abstract, Tags or full-text match context (if matched in these fields)
+		if (matchInfo?.fullTextMatch && matchInfo.fullTextMatch.length > 0) {
+			const contextRow = container.createDiv({ cls: 'bibnotes-suggestion-context-row' });
+			const contextEl = contextRow.createDiv({ cls: 'bibnotes-suggestion-context bibnotes-context-fulltext' });
+			contextEl.setText(t().labelFullText + matchInfo.fullTextMatch.join(", "));
+		} else if (matchInfo?.abstractMatch || matchInfo?.tagsMatch) {
 			const contextRow = container.createDiv({ cls: 'bibnotes-suggestion-context-row' });
 			const contextEl = contextRow.createDiv({ cls: 'bibnotes-suggestion-context' });
 			
@@ -938,27 +1008,32 @@ export class SelectReferenceModal extends SuggestModal<ScoredReference> {
 			indexNoteToBeProcessed < citeKeyToBeProcessed.length;
 			indexNoteToBeProcessed++
 		) {
-			//Find the index of the reference selected
-			const indexSelectedReference = this.data.items.findIndex(
-				(item: { citationKey: string }) =>
+			//Find the index of the reference selected (same source, key and library)
+			const data = this.sourceData[referenceSelected.sourceName];
+			if (!data) continue;
+			const indexSelectedReference = data.items.findIndex(
+				(item: Reference) =>
 					item.citationKey ===
-					citeKeyToBeProcessed[indexNoteToBeProcessed]
+					citeKeyToBeProcessed[indexNoteToBeProcessed] &&
+					item.libraryID === referenceSelected.libraryID &&
+					item.itemKey === referenceSelected.itemKey
 			);
 
 			//Selected Reference
-			const selectedEntry = this.data.items[indexSelectedReference];
+			const selectedEntry = data.items[indexSelectedReference];
 			if (!selectedEntry) continue;
 
 			//Create and export Note for select reference
-			await this.plugin.createNote(selectedEntry, this.data);
+			await this.plugin.createNote(selectedEntry, data);
 
 			//if the note is the last one to be processed, then open it
 			if (indexNoteToBeProcessed == citeKeyToBeProcessed.length - 1) {
+				const settings = getSourceSettings(this.plugin.settings, selectedEntry.sourceName);
 				openSelectedNote(
 					this.app,
 					selectedEntry,
-					this.plugin.settings.exportTitle,
-					this.plugin.settings.exportPath
+					settings.exportTitle,
+					settings.exportPath
 				);
 			}
 		}
@@ -966,14 +1041,15 @@ export class SelectReferenceModal extends SuggestModal<ScoredReference> {
 
 	onClose() {
 		this.cancelPendingSearch();
-		this.searchIndex = [];
+		for (const fullTextIndex of Object.values(this.fullTextIndexes)) fullTextIndex?.close();
+		this.fullTextIndexes = {};
+		this.searchIndex.clear();
 		this.searchCache = [];
-		this.lastSearchSet = null;
 	}
 
 	// Enhanced search using cache data
 	searchItems(query: string): Reference[] {
-		const cacheManager = getCacheManager(this.app, this.plugin.settings.zoteroDbPath);
+		const cacheManager = getSourceCacheManager(this.app, this.plugin.settings, this.plugin.settings.sourceName);
 		return cacheManager.searchItems(query) as Reference[];
 	}
 }
@@ -990,32 +1066,72 @@ export class UpdateLibraryModal extends Modal {
 		this.setContent("Updating...");
 		if (this.plugin.settings.debugMode) console.debug("[BibNotes] Updating Zotero library");
 
-		const dbPath = this.plugin.settings.zoteroDbPath;
-		if (!dbPath) {
+		const sourceNames = getSourceNames(this.plugin.settings);
+		if (sourceNames.length === 0) {
 			new Notice(t().noticeDbNotConfigured);
 			return;
 		}
 
+		// Every source is synced on its own: a failing database does not stop the others
+		const bibtexArray: string[] = [];
+		for (const sourceName of sourceNames) {
+			bibtexArray.push(...await this.updateSource(sourceName));
+		}
+
+		//Console.log the number of items updated
+		new Notice(t().noticeUpdatedEntries(bibtexArray.length));
+		void this.plugin.saveSettings();
+
+		// Show completion with close button
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.createEl('p', { text: t().noticeUpdatedEntries(bibtexArray.length) });
+		new Setting(contentEl)
+			.addButton((btn) =>
+				btn
+					.setButtonText('OK')
+					.setCta()
+					.onClick(() => this.close())
+			);
+	}
+
+	/**
+	 * Update the notes of the items of a source modified since its last
+	 * update, and return their citation keys.
+	 */
+	private async updateSource(sourceName: string): Promise<string[]> {
+		const settings = getSourceSettings(this.plugin.settings, sourceName);
+
 		let data: ZoteroData;
-		// 获取插件目录的绝对路径
-		const adapter = this.app.vault.adapter;
-		const vaultBasePath = adapter instanceof FileSystemAdapter ? adapter.getBasePath() : "";
-		const pluginDir = vaultBasePath && this.plugin.manifest.dir 
-			? vaultBasePath + "/" + this.plugin.manifest.dir 
-			: this.plugin.manifest.dir || "";
 		try {
-			data = await readZoteroDatabase(dbPath, pluginDir);
+			data = await this.plugin.getDataSource(sourceName).read();
+			this.plugin.notifyMissingCitationKeys(data.missingCitationKeyCount);
 		} catch (e) {
 			new Notice(t().noticeDbReadFailed + (e as Error).message);
 			 
 			console.error(e);
-			return;
+			return [];
 		}
+		for (const item of data.items) item.sourceName = sourceName;
+
+		// Keep the cache in sync and handle the items removed from Zotero
+		const cacheManager = getSourceCacheManager(this.app, this.plugin.settings, sourceName);
+		if (!cacheManager.getCache()) await cacheManager.loadCache();
+		await this.plugin.syncDeletedItems(cacheManager, data.liveItemKeys, data.trashedItemKeys, sourceName);
+		cacheManager.updateCache(data.items, data.collections, data.libraries, data.savedSearches, data.creatorTypes, data.watermark);
+		await cacheManager.saveCache();
 
 		const bibtexArray: string[] = [];
 
 		//Check the last time the library was updated
-		const lastUpdate = new Date(this.plugin.settings.lastUpdateDate);
+		const lastUpdate = new Date(settings.lastUpdateDate);
+		//the library and saved search of the settings belong to the main database
+		const isMainSource = sourceName === this.plugin.settings.sourceName;
+		const libraryFilter = isMainSource ? this.plugin.settings.libraryFilter : "";
+		//restrict the update to the saved search selected in the settings
+		const savedSearchScope = isMainSource && data.savedSearches[this.plugin.settings.savedSearchFilter]
+			? getSavedSearchItems(data, this.plugin.settings.savedSearchFilter)
+			: null;
 		//loop through all the entries in the bibliography to find out which ones have been modified since the last time the library on obsidian was updated.
 		for (let index = 0; index < data.items.length; index++) {
 			const selectedEntry = data.items[index];
@@ -1026,15 +1142,23 @@ export class UpdateLibraryModal extends Modal {
 			if (!Object.prototype.hasOwnProperty.call(selectedEntry, "citationKey")) continue;
 			bibtexArrayItem.citationKey = selectedEntry.citationKey;
 
-			//Extract the date the entry was modified
+			//skip the items of the libraries excluded in the settings
+			if (libraryFilter && String(selectedEntry.libraryID) !== libraryFilter) continue;
+			//feed items are only imported from the reference picker
+			if (data.libraries[selectedEntry.libraryID]?.type === "feed") continue;
+			if (savedSearchScope && !savedSearchScope.has(getItemIdentity(selectedEntry))) continue;
+
+			//the item is in Zotero: its note is no longer marked as removed, even when it is not updated
+			await this.plugin.clearDeletedStatus(selectedEntry);
+
+			//Extract the date the entry, its notes, attachments (mirrored in the vault) or annotations were modified
 			const noteDateModifiedArray: string[] = [];
 			if (selectedEntry.dateModified) {
 				noteDateModifiedArray.push(selectedEntry.dateModified);
 			}
-			for (let noteIdx = 0; noteIdx < selectedEntry.notes.length; noteIdx++) {
-				const note = selectedEntry.notes[noteIdx];
-				if (note?.dateModified) {
-					noteDateModifiedArray.push(note.dateModified);
+			for (const child of [...selectedEntry.notes, ...selectedEntry.attachments, ...selectedEntry.annotations]) {
+				if (child.dateModified) {
+					noteDateModifiedArray.push(child.dateModified);
 				}
 			}
 			noteDateModifiedArray.sort((firstElement, secondElement) => {
@@ -1051,13 +1175,13 @@ export class UpdateLibraryModal extends Modal {
 
 			//skip if the setting is to update only existing note and the note is not found at the given folder
 			if (
-				this.plugin.settings.updateLibrary ===
+				settings.updateLibrary ===
 				"Only update existing notes" &&
 				!(await this.app.vault.adapter.exists(
 					createNoteTitle(
 						selectedEntry,
-						this.plugin.settings.exportTitle,
-						this.plugin.settings.exportPath
+						settings.exportTitle,
+						settings.exportPath
 					)
 				))
 			)
@@ -1069,23 +1193,9 @@ export class UpdateLibraryModal extends Modal {
 			bibtexArray.push(selectedEntry.citationKey);
 		}
 
-		//Console.log the number of items updated
-		new Notice(t().noticeUpdatedEntries(bibtexArray.length));
-		//Update the date when the update was last done
-		this.plugin.settings.lastUpdateDate = new Date();
-		void this.plugin.saveSettings();
-
-		// Show completion with close button
-		const { contentEl } = this;
-		contentEl.empty();
-		contentEl.createEl('p', { text: t().noticeUpdatedEntries(bibtexArray.length) });
-		new Setting(contentEl)
-			.addButton((btn) =>
-				btn
-					.setButtonText('OK')
-					.setCta()
-					.onClick(() => this.close())
-			);
+		//Update the date when the source was last updated
+		setLastUpdateDate(this.plugin.settings, sourceName, new Date());
+		return bibtexArray;
 	}
 
 	onClose() {
@@ -1,7 +1,11 @@
 import MyPlugin from "./main";
-import { App, PluginSettingTab, Setting, Notice, FileSystemAdapter, debounce } from "obsidian";
+import { App, PluginSettingTab, Setting, Notice, TextComponent, debounce } from "obsidian";
+import * as fs from "fs";
 import { FolderSuggest } from "./suggesters/FolderSuggester"
 import { t } from "./i18n";
+import { findZoteroDatabases } from "./zotero-prefs";
+import { ZoteroSource } from "./types";
+import { DEFAULT_SETTINGS } from "./constants";
 
 
 export class SettingTab extends PluginSettingTab {
@@ -11,11 +15,27 @@ export class SettingTab extends PluginSettingTab {
 		500,
 		true
 	);
+	private debouncedClearCaches = debounce(
+		() => { void this.clearSourceCaches(); },
+		500,
+		true
+	);
 	constructor(app: App, plugin: MyPlugin) {
 		super(app, plugin);
 		this.plugin = plugin;
 	}
 
+	/**
+	 * Discard the caches of all sources, so that the next read is a full
+	 * read: incremental reads only return modified items.
+	 */
+	private async clearSourceCaches(): Promise<void> {
+		const { getSourceCacheManager, getSourceNames } = await import("./zotero-sources");
+		for (const sourceName of getSourceNames(this.plugin.settings)) {
+			await getSourceCacheManager(this.app, this.plugin.settings, sourceName).clearCache();
+		}
+	}
+
 	display(): void {
 		const { containerEl, plugin } = this;
 		const { settings } = plugin;
@@ -26,16 +46,128 @@ export class SettingTab extends PluginSettingTab {
 		new Setting(containerEl).setName(s.pluginTitle).setHeading();
 		new Setting(containerEl).setName(s.sectionImportLibrary).setHeading();
 
-		new Setting(containerEl)
+		let dbPathText: TextComponent;
+		const dbPathSetting = new Setting(containerEl)
 			.setName(s.zoteroDbPathName)
 			.setDesc(s.zoteroDbPathDesc)
-			.addText((text) =>
+			.addText((text) => {
+				dbPathText = text;
 				text
 					.setPlaceholder(s.zoteroDbPathPlaceholder)
 					.setValue(settings.zoteroDbPath)
 					.onChange((value) => {
 						settings.zoteroDbPath = value;
+						updateMissingWarning();
+						this.debouncedSave();
+					});
+			})
+			.addButton((button) =>
+				button
+					.setButtonText(s.zoteroDbPathDetect)
+					.setTooltip(s.zoteroDbPathDetectTooltip)
+					.onClick(async () => {
+						detectedEl.empty();
+						const databases = findZoteroDatabases();
+						if (databases.length === 0) {
+							new Notice(s.noticeDbNotDetected);
+						} else if (databases.length === 1) {
+							await setDbPath(databases[0]!);
+							new Notice(s.noticeDbDetected(databases[0]!));
+						} else {
+							// Several data directories: let the user pick one
+							new Setting(detectedEl)
+								.setName(s.zoteroDbPathChooseName)
+								.setDesc(s.zoteroDbPathChooseDesc)
+								.addDropdown((d) => {
+									// The path only changes once a database is chosen
+									if (!databases.includes(settings.zoteroDbPath)) d.addOption("", s.zoteroDbPathChoosePlaceholder);
+									for (const dbPath of databases) d.addOption(dbPath, dbPath);
+									d.setValue(databases.includes(settings.zoteroDbPath) ? settings.zoteroDbPath : "");
+									d.onChange(async (v) => {
+										if (v) await setDbPath(v);
+									});
+								});
+						}
+					})
+			);
+		const missingEl = dbPathSetting.descEl.createDiv({ cls: "mod-warning", text: s.zoteroDbPathMissing });
+		const updateMissingWarning = () => {
+			missingEl.toggle(!!settings.zoteroDbPath && !fs.existsSync(settings.zoteroDbPath));
+		};
+		updateMissingWarning();
+		const detectedEl = containerEl.createDiv();
+		const setDbPath = async (dbPath: string) => {
+			settings.zoteroDbPath = dbPath;
+			dbPathText.setValue(dbPath);
+			updateMissingWarning();
+			await plugin.saveSettings();
+		};
+
+		new Setting(containerEl)
+			.setName(s.sourceNameName)
+			.setDesc(s.sourceNameDesc)
+			.addText((text) =>
+				text
+					.setValue(settings.sourceName)
+					.onChange((value) => {
+						settings.sourceName = value.trim() || "Zotero";
+						this.debouncedSave();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName(s.useLocalApiName)
+			.setDesc(s.useLocalApiDesc)
+			.addToggle((toggle) =>
+				toggle
+					.setValue(settings.useLocalApi)
+					.onChange(async (value) => {
+						settings.useLocalApi = value;
+						await plugin.saveSettings();
+						localApiUrlSetting.settingEl.toggle(value);
+						// The watermark of a local API read does not fit the database, and the other way round
+						await this.clearSourceCaches();
+					})
+			);
+
+		const localApiUrlSetting = new Setting(containerEl)
+			.setName(s.localApiUrlName)
+			.setDesc(s.localApiUrlDesc)
+			.addText((text) =>
+				text
+					.setPlaceholder(DEFAULT_SETTINGS.localApiUrl)
+					.setValue(settings.localApiUrl)
+					.onChange((value) => {
+						settings.localApiUrl = value.trim() || DEFAULT_SETTINGS.localApiUrl;
+						this.debouncedSave();
+					})
+			);
+		localApiUrlSetting.settingEl.toggle(settings.useLocalApi);
+
+		new Setting(containerEl)
+			.setName(s.baseAttachmentPathName)
+			.setDesc(s.baseAttachmentPathDesc)
+			.addText((text) =>
+				text
+					.setPlaceholder(s.baseAttachmentPathPlaceholder)
+					.setValue(settings.baseAttachmentPath)
+					.onChange((value) => {
+						settings.baseAttachmentPath = value;
+						this.debouncedSave();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName(s.fallbackCitationKeyName)
+			.setDesc(s.fallbackCitationKeyDesc)
+			.addText((text) =>
+				text
+					.setValue(settings.fallbackCitationKeyFormat)
+					.onChange((value) => {
+						settings.fallbackCitationKeyFormat = value;
 						this.debouncedSave();
+						// Cached items keep the keys generated with the previous format
+						this.debouncedClearCaches();
 					})
 			);
 
@@ -46,28 +178,32 @@ export class SettingTab extends PluginSettingTab {
 				button.setIcon("sync")
 					.setTooltip(s.cacheRebuildTooltip)
 					.onClick(async () => {
-						if (!settings.zoteroDbPath) {
+						const { getSourceCacheManager, getSourceNames } = await import("./zotero-sources");
+						const sourceNames = getSourceNames(settings);
+						if (sourceNames.length === 0) {
 							new Notice(s.cacheSetPathFirst);
 							return;
 						}
 						new Notice(s.cacheRebuilding);
 						try {
-							const { clearCacheManager, getCacheManager } = await import("./zotero-cache");
-							const { readZoteroDatabase } = await import("./zotero-db");
+							const { clearCacheManager } = await import("./zotero-cache");
 							// Clear old cache
 							clearCacheManager();
-							const cacheManager = getCacheManager(this.app, settings.zoteroDbPath);
-						await cacheManager.clearCache();
-							// Get plugin directory path
-							const vaultBasePath = this.app.vault.adapter instanceof FileSystemAdapter ? this.app.vault.adapter.getBasePath() : "";
-							const pluginDir = vaultBasePath && this.plugin.manifest.dir
-							? vaultBasePath + "/" + this.plugin.manifest.dir
-								: this.plugin.manifest.dir || "";
-							// Full read from Zotero database
-							const data = await readZoteroDatabase(settings.zoteroDbPath, pluginDir);
-							cacheManager.updateCache(data.items, data.collections);
-							await cacheManager.saveCache();
-							new Notice(s.cacheRebuiltSuccess(data.items.length));
+							let itemCount = 0;
+							let missingCitationKeyCount = 0;
+							for (const sourceName of sourceNames) {
+								const cacheManager = getSourceCacheManager(this.app, settings, sourceName);
+								await cacheManager.clearCache();
+								// Full read from Zotero database
+								const data = await plugin.getDataSource(sourceName).read();
+								for (const item of data.items) item.sourceName = sourceName;
+								cacheManager.updateCache(data.items, data.collections, data.libraries, data.savedSearches, data.creatorTypes, data.watermark);
+								await cacheManager.saveCache();
+								itemCount += data.items.length;
+								missingCitationKeyCount += data.missingCitationKeyCount;
+							}
+							new Notice(s.cacheRebuiltSuccess(itemCount));
+							plugin.notifyMissingCitationKeys(missingCitationKeyCount);
 							this.display();
 						} catch (e) {
 							new Notice(s.cacheRebuildFailed + (e as Error).message);						 
@@ -76,17 +212,105 @@ export class SettingTab extends PluginSettingTab {
 			})
 			.addText((text) => {
 				text.setDisabled(true);
-				void import("./zotero-cache").then(({ getCacheManager }) => {
-					const cacheManager = getCacheManager(this.app, settings.zoteroDbPath);
-					const stats = cacheManager.getCacheStats();
-					if (stats.itemCount > 0) {
-						text.setValue(s.cacheItemsCached(stats.itemCount));
+				void import("./zotero-sources").then(({ getSourceCacheManager, getSourceNames }) => {
+					let itemCount = 0;
+					for (const sourceName of getSourceNames(settings)) {
+						itemCount += getSourceCacheManager(this.app, settings, sourceName).getCacheStats().itemCount;
+					}
+					if (itemCount > 0) {
+						text.setValue(s.cacheItemsCached(itemCount));
 					} else {
 						text.setValue(s.cacheNone);
 					}
 				});
 			});
 
+		new Setting(containerEl)
+			.setName(s.libraryFilterName)
+			.setDesc(s.libraryFilterDesc)
+			.addDropdown((d) => {
+				d.addOption("", s.libraryFilterAll);
+				// Libraries are only known once the cache has been built
+				void import("./zotero-sources").then(async ({ getSourceCacheManager }) => {
+					const cacheManager = getSourceCacheManager(this.app, settings, settings.sourceName);
+					if (!cacheManager.getCache()) await cacheManager.loadCache();
+					const libraries = Object.values(cacheManager.getCache()?.libraries ?? {});
+					for (const library of libraries) {
+						if (library.type === "feed") continue;
+						d.addOption(String(library.libraryID), library.name);
+					}
+					d.setValue(settings.libraryFilter);
+				});
+				d.setValue(settings.libraryFilter);
+				d.onChange(async (v) => {
+					settings.libraryFilter = v;
+					await plugin.saveSettings();
+				});
+			});
+
+		new Setting(containerEl)
+			.setName(s.savedSearchFilterName)
+			.setDesc(s.savedSearchFilterDesc)
+			.addDropdown((d) => {
+				d.addOption("", s.savedSearchFilterNone);
+				// Saved searches are only known once the cache has been built
+				void import("./zotero-sources").then(async ({ getSourceCacheManager }) => {
+					const cacheManager = getSourceCacheManager(this.app, settings, settings.sourceName);
+					if (!cacheManager.getCache()) await cacheManager.loadCache();
+					const cache = cacheManager.getCache();
+					for (const [identity, search] of Object.entries(cache?.savedSearches ?? {})) {
+						const library = cache?.libraries[search.libraryID];
+						d.addOption(identity, library && library.type !== "user" ? `${search.name} (${library.name})` : search.name);
+					}
+					d.setValue(settings.savedSearchFilter);
+				});
+				d.setValue(settings.savedSearchFilter);
+				d.onChange(async (v) => {
+					settings.savedSearchFilter = v;
+					await plugin.saveSettings();
+				});
+			});
+
+		new Setting(containerEl)
+			.setName(s.importFeedItemsName)
+			.setDesc(s.importFeedItemsDesc)
+			.addToggle((toggle) =>
+				toggle
+					.setValue(settings.importFeedItems)
+					.onChange(async (value) => {
+						settings.importFeedItems = value;
+						await plugin.saveSettings();
+						await this.clearSourceCaches();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName(s.sectionSources)
+			.setDesc(s.sectionSourcesDesc)
+			.setHeading()
+			.addButton((button) =>
+				button
+					.setButtonText(s.sourceAdd)
+					.onClick(async () => {
+						// A new array: the default one is shared with DEFAULT_SETTINGS
+						settings.sources = [...settings.sources, {
+							name: "",
+							zoteroDbPath: "",
+							exportPath: "",
+							templateContent: "",
+							lastUpdateDate: new Date(DEFAULT_SETTINGS.lastUpdateDate),
+						}];
+						await plugin.saveSettings();
+						renderSources();
+					})
+			);
+		const sourcesEl = containerEl.createDiv();
+		const renderSources = () => {
+			sourcesEl.empty();
+			settings.sources.forEach((source, index) => this.displaySource(sourcesEl, source, index, renderSources));
+		};
+		renderSources();
+
 		new Setting(containerEl).setName(s.sectionExportNotes).setHeading();
 
 		new Setting(containerEl)
@@ -200,6 +424,18 @@ export class SettingTab extends PluginSettingTab {
 					})
 			);
 
+		new Setting(containerEl)
+			.setName(s.excludeAutomaticTagsName)
+			.setDesc(s.excludeAutomaticTagsDesc)
+			.addToggle((toggle) =>
+				toggle
+					.setValue(settings.excludeAutomaticTags)
+					.onChange(async (value) => {
+						settings.excludeAutomaticTags = value;
+						await plugin.saveSettings();
+					})
+			);
+
 		new Setting(containerEl)
 			.setName(s.formatNamesName)
 			.setDesc(s.formatNamesDesc)
@@ -212,6 +448,106 @@ export class SettingTab extends PluginSettingTab {
 					})
 			);
 
+		new Setting(containerEl)
+			.setName(s.userNotesHeadingName)
+			.setDesc(s.userNotesHeadingDesc)
+			.addText((text) =>
+				text
+					.setPlaceholder("### {{noteTitle}}")
+					.setValue(settings.userNotesHeading)
+					.onChange((value) => {
+						settings.userNotesHeading = value;
+						this.debouncedSave();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName(s.userNotesSeparatorName)
+			.setDesc(s.userNotesSeparatorDesc)
+			.addTextArea((text) =>
+				text
+					.setValue(settings.userNotesSeparator)
+					.onChange((value) => {
+						settings.userNotesSeparator = value;
+						this.debouncedSave();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName(s.importAnnotationsName)
+			.setDesc(s.importAnnotationsDesc)
+			.addToggle((toggle) =>
+				toggle
+					.setValue(settings.importAnnotations)
+					.onChange(async (value) => {
+						settings.importAnnotations = value;
+						await plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName(s.annotationFormatName)
+			.setDesc(s.annotationFormatDesc)
+			.addTextArea((text) =>
+				text
+					.setValue(settings.annotationFormat)
+					.onChange((value) => {
+						settings.annotationFormat = value;
+						this.debouncedSave();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName(s.annotationColorsName)
+			.setDesc(s.annotationColorsDesc)
+			.addText((text) =>
+				text
+					.setPlaceholder("Yellow, #ff6666")
+					.setValue(settings.annotationColors)
+					.onChange((value) => {
+						settings.annotationColors = value;
+						this.debouncedSave();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName(s.annotationTagsName)
+			.setDesc(s.annotationTagsDesc)
+			.addText((text) =>
+				text
+					.setValue(settings.annotationTags)
+					.onChange((value) => {
+						settings.annotationTags = value;
+						this.debouncedSave();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName(s.attachmentMirrorName)
+			.setDesc(s.attachmentMirrorDesc)
+			.addDropdown((d) => {
+				d.addOption("Off", s.attachmentMirrorOff);
+				d.addOption("Copy", s.attachmentMirrorCopy);
+				d.addOption("Symlink", s.attachmentMirrorSymlink);
+				d.setValue(settings.attachmentMirror);
+				d.onChange(async (v: "Off" | "Copy" | "Symlink") => {
+					settings.attachmentMirror = v;
+					await plugin.saveSettings();
+				});
+			});
+
+		new Setting(containerEl)
+			.setName(s.attachmentMirrorPathName)
+			.setDesc(s.attachmentMirrorPathDesc)
+			.addSearch((cb) => {
+				new FolderSuggest(this.app, cb.inputEl);
+				cb.setValue(settings.attachmentMirrorPath)
+					.onChange(async (new_folder) => {
+						settings.attachmentMirrorPath = new_folder;
+						await plugin.saveSettings();
+					});
+			});
+
 		new Setting(containerEl)
 			.setName(s.saveManualEditsName)
 			.setDesc(s.saveManualEditsDesc)
@@ -282,5 +618,110 @@ export class SettingTab extends PluginSettingTab {
 					}
 				);
 			});
+
+		new Setting(containerEl)
+			.setName(s.deletedItemActionName)
+			.setDesc(s.deletedItemActionDesc)
+			.addDropdown((d) => {
+				d.addOption("Do nothing", s.deletedItemNothing);
+				d.addOption("Add property", s.deletedItemProperty);
+				d.addOption("Move to archive folder", s.deletedItemArchive);
+				d.addOption("List in report", s.deletedItemReport);
+				d.setValue(settings.deletedItemAction);
+				d.onChange(
+					async (
+						v:
+							| "Do nothing"
+							| "Add property"
+							| "Move to archive folder"
+							| "List in report"
+					) => {
+						settings.deletedItemAction = v;
+						await plugin.saveSettings();
+					}
+				);
+			});
+
+		new Setting(containerEl)
+			.setName(s.deletedItemArchivePathName)
+			.setDesc(s.deletedItemArchivePathDesc)
+			.addSearch((cb) => {
+				new FolderSuggest(this.app, cb.inputEl);
+				cb.setValue(settings.deletedItemArchivePath)
+					.onChange(async (new_folder) => {
+						settings.deletedItemArchivePath = new_folder;
+						await plugin.saveSettings();
+					});
+			});
+	}
+
+	/**
+	 * Settings of an additional Zotero source. Empty fields fall back to the
+	 * main export folder and template.
+	 */
+	private displaySource(containerEl: HTMLElement, source: ZoteroSource, index: number, refresh: () => void): void {
+		const { plugin } = this;
+		const s = t();
+
+		new Setting(containerEl)
+			.setName(s.sourceHeading(source.name || String(index + 1)))
+			.setHeading()
+			.addExtraButton((button) =>
+				button
+					.setIcon("trash")
+					.setTooltip(s.sourceRemove)
+					.onClick(async () => {
+						plugin.settings.sources.splice(index, 1);
+						await plugin.saveSettings();
+						refresh();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName(s.sourceNameName)
+			.addText((text) =>
+				text
+					.setValue(source.name)
+					.onChange((value) => {
+						source.name = value.trim();
+						this.debouncedSave();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName(s.zoteroDbPathName)
+			.addText((text) =>
+				text
+					.setPlaceholder(s.zoteroDbPathPlaceholder)
+					.setValue(source.zoteroDbPath)
+					.onChange((value) => {
+						source.zoteroDbPath = value.trim();
+						this.debouncedSave();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName(s.sourceExportPathName)
+			.setDesc(s.sourceExportPathDesc)
+			.addSearch((cb) => {
+				new FolderSuggest(this.app, cb.inputEl);
+				cb.setValue(source.exportPath)
+					.onChange((new_folder) => {
+						source.exportPath = new_folder;
+						this.debouncedSave();
+					});
+			});
+
+		new Setting(containerEl)
+			.setName(s.sourceTemplateName)
+			.setDesc(s.sourceTemplateDesc)
+			.addTextArea((text) => {
+				text.inputEl.rows = 6;
+				text.inputEl.setCssProps({ "width": "100%" });
+				text.setValue(source.templateContent).onChange((value) => {
+					source.templateContent = value;
+					this.debouncedSave();
+				});
+			});
 	}
 }
@@ -2,6 +2,14 @@
 
 export interface ZoteroDirectSettings {
 	zoteroDbPath: string;
+	// Name of the main database, shown in the picker when there are additional sources
+	sourceName: string;
+	sources: ZoteroSource[];
+	// Read the main database through Zotero 7's local API while Zotero is running
+	useLocalApi: boolean;
+	localApiUrl: string;
+	baseAttachmentPath: string;
+	fallbackCitationKeyFormat: string;
 	templateContent: string;
 	templateType: "Plain" | "Admonition" | "Custom";
 	exportPath: string;
@@ -12,11 +20,37 @@ export interface ZoteroDirectSettings {
 	saveManualEditsEnd: string;
 	lastUpdateDate: Date;
 	updateLibrary: "Only update existing notes" | "Create new notes when missing";
+	deletedItemAction: "Do nothing" | "Add property" | "Move to archive folder" | "List in report";
+	deletedItemArchivePath: string;
 	isDoubleSpaced: boolean;
 	multipleFieldsDivider: string;
+	excludeAutomaticTags: boolean;
 	nameFormat: string;
 	debugMode: boolean;
 	missingfieldreplacement: string;
+	userNotesSeparator: string;
+	userNotesHeading: string;
+	importAnnotations: boolean;
+	annotationFormat: string;
+	annotationColors: string;
+	annotationTags: string;
+	libraryFilter: string;
+	savedSearchFilter: string;
+	importFeedItems: boolean;
+	attachmentMirror: "Off" | "Copy" | "Symlink";
+	attachmentMirrorPath: string;
+}
+
+/**
+ * An additional Zotero database (e.g. the profile of a project) with its
+ * own cache, export folder and template. Empty fields use the main settings.
+ */
+export interface ZoteroSource {
+	name: string;
+	zoteroDbPath: string;
+	exportPath: string;
+	templateContent: string;
+	lastUpdateDate: Date;
 }
 
 export interface Reference {
@@ -26,18 +60,33 @@ export interface Reference {
 	id: number;
 	citationKey: string;
 	citeKey: string;
+	citationKeyGenerated: boolean;
 	year: string;
+	// Parts of the date that are known, filled by parseMetadata
+	month: string;
+	day: string;
+	dateISO: string;
 	citationInLine: string;
 	citationInLineInitials: string;
 	citationInLineFullName: string;
 	citationShort: string;
 	citationFull: string;
 	itemType: string;
+	// English label of the item type from the Zotero schema ("Conference Paper")
+	itemTypeLabel: string;
 	inlineReference: string;
 	date: string;
+	dateAdded: string;
 	dateModified: string;
 	itemKey: string;
 	itemID: number;
+	libraryID: number;
+	groupID: number;
+	libraryName: string;
+	// Name of the Zotero source (database) the item was read from, set by the caller of the readers
+	sourceName: string;
+	// Name of the RSS feed of a feed item, "" for library items
+	feedName: string;
 	title: string;
 	publicationTitle: string;
 	volume: number;
@@ -54,6 +103,9 @@ export interface Reference {
 	filePath: string;
 	dateEnacted: string;
 	zoteroReaderLink: string;
+	// Embeds and wikilinks of the attachments mirrored into the vault
+	pdfEmbed: string;
+	pdfLink: string;
 	localLibrary: string;
 	localLibraryLink: string;
 	select: string;
@@ -61,6 +113,8 @@ export interface Reference {
 		dateAdded: string;
 		dateModified: string;
 		itemType: string;
+		key: string;
+		contentType: string;
 		path: string;
 		relations: string[];
 		select: string;
@@ -74,6 +128,7 @@ export interface Reference {
 		itemType: string;
 		key: string;
 		note: string;
+		title: string;
 		parentItem: "VMSSFNIR";
 		relations: string[];
 		tags: string[];
@@ -82,8 +137,21 @@ export interface Reference {
 	}[];
 	tags: {
 		tag: string;
+		// 0 = added by hand, 1 = automatic (imported with the item metadata)
+		type: number;
 	}[];
+	// Tags with a colour or emoji assigned in Zotero, in Zotero's order
+	coloredTags: string[];
 	zoteroTags: string[];
+	annotations: Annotation[];
+	relatedItems: string[];
+	// "key: value" lines of the Extra field (CSL variables, identifiers, tex.* fields)
+	extraFields: Record<string, string>;
+	// Retraction reported by Zotero's Retraction Watch check
+	isRetracted: boolean;
+	retractionDate: string;
+	// Notice of a retracted item, undefined otherwise (left to the missing field setting)
+	retracted?: string;
 }
 
 export interface Creator {
@@ -93,12 +161,49 @@ export interface Creator {
 	name: string;
 }
 
+export interface Annotation {
+	key: string;
+	attachmentKey: string;
+	groupID: number;
+	annotationType: "highlight" | "note" | "image" | "ink" | "underline" | "text";
+	text: string;
+	comment: string;
+	color: string;
+	pageLabel: string;
+	pageIndex: number;
+	sortIndex: string;
+	tags: string[];
+	dateAdded: string;
+	dateModified: string;
+}
+
 export interface Collection {
 	collections: string[];
-	items: string[];
+	items: string[]; // "<libraryID>/<itemKey>" of the items in the collection
+	key: string;
+	name: string;
+	parent: string; // "<libraryID>/<key>" of the parent collection, "" at the top level
+	libraryID: number;
+}
+
+export interface Library {
+	libraryID: number;
+	type: "user" | "group" | "feed";
+	groupID: number;
+	name: string;
+}
+
+export interface SearchCondition {
+	condition: string;
+	operator: string;
+	value: string;
+}
+
+export interface SavedSearch {
 	key: string;
 	name: string;
-	parent: string;
+	libraryID: number;
+	conditions: SearchCondition[];
 }
 
 export type CreatorArray = Array<Creator>;
@@ -1,4 +1,5 @@
-import { App, normalizePath } from "obsidian";
+import * as fs from "fs";
+import { App, moment, normalizePath } from "obsidian";
 import {
 	Creator,
 	CreatorArray,
@@ -6,6 +7,7 @@ import {
 } from "./types";
 
 import { TEMPLATE_BRACKET_REG, TEMPLATE_REG } from "./constants";
+import { t } from "./i18n";
 
 export function replaceAllTemplates(
 	entriesArray: string[],
@@ -20,8 +22,10 @@ export function replaceAllTemplates(
 		const KW_Brackets = "{{" + KW + "}}";
 		// 	 replace the keyword in the template
 		const rawValue = selectedEntry[KW as keyof Reference];
+		// undefined fields keep their placeholder for the missing field setting
+		if (rawValue === undefined) continue;
 		const strValue = typeof rawValue === 'string' ? rawValue
-			: typeof rawValue === 'number' ? String(rawValue)
+			: typeof rawValue === 'number' || typeof rawValue === 'boolean' ? String(rawValue)
 			: '';
 
 		copy = replaceTemplate(
@@ -35,6 +39,50 @@ export function replaceAllTemplates(
 	return copy;
 }
 
+/**
+ * Split a Zotero date into year, month and day. Zotero stores dates as
+ * "YYYY-MM-DD <original text>" with 00 for the unknown parts
+ * (e.g. "2019-03-00 March 2019"); other values only yield a year.
+ */
+export function parseZoteroDate(date: string): { year: string; month: string; day: string } {
+	const m = (date || "").match(/^(\d{4})-(\d{2})-(\d{2})/);
+	if (!m) return { year: (date || "").match(/\d{4}/)?.[0] ?? "", month: "", day: "" };
+	const part = (value: string) => (/^0+$/.test(value) ? "" : value);
+	return { year: part(m[1]!), month: part(m[2]!), day: part(m[3]!) };
+}
+
+/**
+ * ISO 8601 form of a Zotero date, as precise as the date is known:
+ * "2019-03-14", "2019-03" or "2019".
+ */
+export function createDateISO(date: string): string {
+	const { year, month, day } = parseZoteroDate(date);
+	if (!year) return "";
+	if (!month) return year;
+	return day ? `${year}-${month}-${day}` : `${year}-${month}`;
+}
+
+/**
+ * Replace {{date:FORMAT}}, {{dateAdded:FORMAT}} and {{dateModified:FORMAT}}
+ * using moment formats (e.g. {{dateAdded:YYYY-MM-DD}}). dateAdded and
+ * dateModified are stored in UTC and converted to the local timezone, also
+ * when they are used without a format. Plain {{date}} is left as it is.
+ */
+export function replaceDateFormats(note: string, entry: Reference): string {
+	return note.replace(/\{\{(date|dateAdded|dateModified)(?::([^}]+))?\}\}/g, (match, field: string, format: string | undefined) => {
+		if (field === "date") {
+			if (!format) return match;
+			const { year, month, day } = parseZoteroDate(entry.date);
+			if (!year) return match;
+			const value = moment({ year: Number(year), month: month ? Number(month) - 1 : 0, day: day ? Number(day) : 1 });
+			return value.isValid() ? value.format(format) : match;
+		}
+		const timestamp = field === "dateAdded" ? entry.dateAdded : entry.dateModified;
+		const value = moment.utc(timestamp, "YYYY-MM-DD HH:mm:ss").local();
+		return value.isValid() ? value.format(format ?? "YYYY-MM-DD HH:mm:ss") : match;
+	});
+}
+
 function escapeRegExp(stringAdd: string) {
 	return stringAdd.replace(/[.*+\-?^${}()|[\]\\]/g, "\\$&"); // $& means the whole matched string
 }
@@ -431,27 +479,24 @@ export const createCreatorList = (
 		divider = divider + " ";
 	}
 
-	if (creatorList.length == 0) {
-		return note;
-	} else {
-		note = replaceTemplate(
-			note,
-			`[[{{${typeCreator}}}]]`,
-			creatorListBracket.join(divider)
-		);
-		note = replaceTemplate(
-			note,
-			`"{{${typeCreator}}}"`,
-			creatorListQuotes.join(divider)
-		);
-		note = replaceTemplate(
-			note,
-			`{{${typeCreator}}}`,
-			creatorList.join(divider)
-		);
+	//a role without creators renders empty, like any other empty field
+	note = replaceTemplate(
+		note,
+		`[[{{${typeCreator}}}]]`,
+		creatorListBracket.join(divider)
+	);
+	note = replaceTemplate(
+		note,
+		`"{{${typeCreator}}}"`,
+		creatorListQuotes.join(divider)
+	);
+	note = replaceTemplate(
+		note,
+		`{{${typeCreator}}}`,
+		creatorList.join(divider)
+	);
 
-		return note;
-	}
+	return note;
 };
 
 export const createCreatorAllList = (
@@ -561,18 +606,21 @@ export function createLocalFileLink(reference: Reference) {
 		if (attachment.itemType !== "attachment")
 			continue;
 
-		//remove white spaces from file name
-		if (attachment.path == undefined) {
-			attachment.path = "";
-		}
+		//skip attachments without a file (e.g. web links)
+		if (!attachment.path) continue;
 
-		const selectedfile: string =
+		let selectedfile: string =
 			"[" +
 			attachment.title +
 			"](file:///" + // added an extra "/" to make it work on Linux
 			encodeURI(attachment.path.split(" ").join(" ")) +
 			")"; //select the author
 
+		//flag files that are missing on disk (e.g. unresolved linked files)
+		if (!fs.existsSync(attachment.path)) {
+			selectedfile += " " + t().fileMissing;
+		}
+
 
 		filesList.push(selectedfile);
 	}
@@ -685,11 +733,55 @@ export function createNoteTitle(
 	return normalizePath(exportPath + "/" + exportTitle + ".md");
 }
 
+/**
+ * Path of the literature note of an entry. Author and year fields are
+ * computed on a copy, so this also works for entries that have not been
+ * processed by parseMetadata (e.g. cached or related items).
+ */
+export function createNotePath(entry: Reference, exportTitle: string, exportPath: string) {
+	const linkedEntry: Reference = {
+		...entry,
+		authorKey: createAuthorKey(entry.creators),
+		authorKeyInitials: createAuthorKeyInitials(entry.creators),
+		authorKeyFullName: createAuthorKeyFullName(entry.creators),
+		year: entry.year || (entry.date || "").match(/\d{4}/)?.[0] || "",
+	};
+	return createNoteTitle(linkedEntry, exportTitle, exportPath);
+}
+
+/**
+ * Text of a wikilink to the literature note of an entry (note title without
+ * folder and extension).
+ */
+export function createNoteLinkText(entry: Reference, exportTitle: string) {
+	const notePath = createNotePath(entry, exportTitle, "");
+	return notePath.substring(notePath.lastIndexOf("/") + 1).replace(/\.md$/, "");
+}
+
+/**
+ * Replace the [[{{placeholder}}]], "{{placeholder}}", #{{placeholder}} and
+ * {{placeholder}} variants of a tag list. Empty lists are left to the
+ * missing field setting.
+ */
+function replaceTagVariants(
+	metadata: string,
+	placeholder: string,
+	tags: string[],
+	divider: string
+) {
+	if (tags.length === 0) return metadata;
+	metadata = replaceTemplate(metadata, `[[{{${placeholder}}}]]`, tags.map(makeWiki).join(divider));
+	metadata = replaceTemplate(metadata, `"{{${placeholder}}}"`, tags.map(makeQuotes).join(divider));
+	metadata = replaceTemplate(metadata, `#{{${placeholder}}}`, tags.map(makeTags).join(divider));
+	return replaceTemplate(metadata, `{{${placeholder}}}`, tags.join(divider));
+}
+
 export function replaceTagList(
 	selectedEntry: Reference,
 	arrayExtractedKeywords: string[],
 	metadata: string,
-	divider: string
+	divider: string,
+	excludeAutomaticTags = false
 ) {
 	// Copy the keywords extracted by Zotero and store them in an array
 	selectedEntry.zoteroTags = [];
@@ -700,7 +792,8 @@ export function replaceTagList(
 			indexTag++
 		) {
 			const tagEntry = selectedEntry.tags[indexTag];
-			if (tagEntry) {
+			// Automatic tags (type 1) come from publisher metadata and can be left out
+			if (tagEntry && !(excludeAutomaticTags && tagEntry.type === 1)) {
 				selectedEntry.zoteroTags.push(tagEntry.tag);
 			}
 		}
@@ -711,6 +804,14 @@ export function replaceTagList(
 		divider = divider + " ";
 	}
 
+	//Replace in the text the manual, automatic and coloured tags
+	const tagsManual = selectedEntry.tags.filter(t => t.type !== 1).map(t => t.tag).sort();
+	const tagsAutomatic = selectedEntry.tags.filter(t => t.type === 1).map(t => t.tag).sort();
+	metadata = replaceTagVariants(metadata, "tagsManual", tagsManual, divider);
+	metadata = replaceTagVariants(metadata, "tagsAutomatic", tagsAutomatic, divider);
+	// Coloured tags keep Zotero's order (their position in the tag selector)
+	metadata = replaceTagVariants(metadata, "tagsColored", selectedEntry.coloredTags || [], divider);
+
 	//Create three arrays for the tags from the metadata, tags exported from the text and tags combined
 	const tagsZotero = selectedEntry.zoteroTags.sort();
 	const tagsPDF = arrayExtractedKeywords.sort();
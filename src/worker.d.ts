@@ -0,0 +1,8 @@
+/**
+ * "./file?worker" imports: the file bundled for a Web Worker, as source
+ * text (see the inline-worker plugin in esbuild.config.mjs).
+ */
+declare module "*?worker" {
+	const source: string;
+	export default source;
+}
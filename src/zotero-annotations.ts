@@ -0,0 +1,93 @@
+/**
+ * Zotero Annotation Formatter
+ *
+ * Renders the PDF annotations stored in Zotero's itemAnnotations table
+ * (Zotero 6/7) into Markdown for the opt-in {{annotations}} placeholder.
+ * Annotations can be restricted to a set of colours and/or tags so that
+ * only curated highlights end up in the literature note.
+ */
+
+import { ANNOTATION_COLORS } from "./constants";
+import { Annotation } from "./types";
+import { makeTags } from "./utils";
+import { zoteroLibraryPath } from "./zotero-reader";
+
+export interface AnnotationOptions {
+	/** Format of a single entry, e.g. "> {{highlight}} ([p. {{page}}]({{link}}))" */
+	format: string;
+	/** Comma-separated colour names or hex codes. Empty = all colours */
+	colors: string;
+	/** Comma-separated tags. Empty = all annotations */
+	tags: string;
+}
+
+function splitList(value: string): string[] {
+	return value
+		.split(",")
+		.map(v => v.trim().toLowerCase())
+		.filter(v => v.length > 0);
+}
+
+/**
+ * Link opening the annotation in the Zotero PDF reader.
+ */
+export function createAnnotationLink(annotation: Annotation): string {
+	const page = annotation.pageIndex >= 0 ? `page=${annotation.pageIndex + 1}&` : "";
+	return `zotero://open-pdf/${zoteroLibraryPath(annotation.groupID)}/items/${annotation.attachmentKey}?${page}annotation=${annotation.key}`;
+}
+
+/**
+ * Keep only the annotations matching the colour and tag filters.
+ */
+export function filterAnnotations(annotations: Annotation[], options: AnnotationOptions): Annotation[] {
+	const colors = splitList(options.colors);
+	const tags = splitList(options.tags);
+	return annotations.filter(annotation => {
+		if (colors.length > 0) {
+			const colorName = ANNOTATION_COLORS[annotation.color] ?? "";
+			if (!colors.includes(annotation.color) && !colors.includes(colorName)) return false;
+		}
+		if (tags.length > 0) {
+			if (!annotation.tags.some(tag => tags.includes(tag.toLowerCase()))) return false;
+		}
+		return true;
+	});
+}
+
+/**
+ * Render a single annotation with the entry format.
+ * Lines whose placeholders are all empty (e.g. a missing comment) are dropped.
+ */
+function formatAnnotation(annotation: Annotation, format: string): string {
+	const values: Record<string, string> = {
+		highlight: annotation.text.trim(),
+		comment: annotation.comment.trim(),
+		color: annotation.color,
+		colorName: ANNOTATION_COLORS[annotation.color] ?? annotation.color,
+		page: annotation.pageLabel || (annotation.pageIndex >= 0 ? String(annotation.pageIndex + 1) : ""),
+		link: createAnnotationLink(annotation),
+		tags: annotation.tags.map(makeTags).join(" "),
+		type: annotation.annotationType,
+	};
+
+	const lines: string[] = [];
+	for (const line of format.split("\n")) {
+		const placeholders = line.match(/\{\{(\w+)\}\}/g) ?? [];
+		const known = placeholders.filter(p => p.slice(2, -2) in values);
+		if (known.length > 0 && known.every(p => !values[p.slice(2, -2)])) continue;
+		lines.push(line.replace(/\{\{(\w+)\}\}/g, (match, name: string) => values[name] ?? match));
+	}
+	return lines.join("\n").trim();
+}
+
+/**
+ * Build the content of {{annotations}} for a reference.
+ * Returns an empty string when no annotation passes the filters.
+ */
+export function createAnnotationList(annotations: Annotation[] | undefined, options: AnnotationOptions): string {
+	if (!annotations || annotations.length === 0) return "";
+	return filterAnnotations(annotations, options)
+		.map(annotation => formatAnnotation(annotation, options.format))
+		.filter(entry => entry.length > 0)
+		.join("\n\n");
+}
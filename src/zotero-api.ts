@@ -0,0 +1,484 @@
+/**
+ * Zotero Local API Reader
+ *
+ * Zotero 7 serves a read-only copy of the Zotero Web API on
+ * http://localhost:23119/api/ once "Allow other applications on this
+ * computer to communicate with Zotero" is checked (Settings → Advanced).
+ * Reading through it does not copy the database file, does not wait for
+ * writes that are still in the write-ahead log and does not depend on the
+ * database schema.
+ *
+ * The item listing is read page by page; it includes the children of the
+ * items (attachments, notes and annotations) and their tags. Items become
+ * the same Reference objects as those of zotero-reader.ts. The local API
+ * has no RSS feeds, retractions or full-text words: these stay with
+ * zotero.sqlite, which is also read when Zotero is not running (see
+ * getDataSource).
+ */
+
+import { requestUrl } from "obsidian";
+import { Annotation, Collection, Library, Reference, SavedSearch } from "./types";
+import { applyFallbackCitationKeys } from "./zotero-citekeys";
+import { ZoteroReadOptions, resolveAttachmentPaths } from "./zotero-db";
+import { getExtraField, parseExtraField } from "./zotero-extra";
+import {
+	ZoteroData,
+	asString,
+	buildReference,
+	getItemIdentity,
+	getRelatedItemIdentity,
+	zoteroLibraryPath,
+} from "./zotero-reader";
+import { GlobalSchema, ItemSchema, applyBaseFields, getItemTypeLabel, parseGlobalSchema } from "./zotero-schema";
+
+// Largest page the Web API returns
+const PAGE_SIZE = 100;
+
+const CHILD_ITEM_TYPES = new Set(["attachment", "note", "annotation"]);
+const ANNOTATION_TYPES = new Set<string>(["highlight", "note", "image", "ink", "underline", "text"]);
+
+// ── API objects ──────────────────────────────────────────────────────
+
+/** An object of the Web API: its key and version, with its fields in data */
+interface ApiObject<T> {
+	key: string;
+	version: number;
+	data: T;
+}
+
+interface ApiItemData {
+	key: string;
+	itemType: string;
+	parentItem?: string;
+	dateAdded?: string;
+	dateModified?: string;
+	creators?: { creatorType: string; firstName?: string; lastName?: string; name?: string }[];
+	tags?: { tag: string; type?: number }[];
+	collections?: string[];
+	relations?: Record<string, string | string[]>;
+	// Fields of the item type (title, date, note, contentType, annotationText, ...)
+	[field: string]: unknown;
+}
+
+interface ApiCollectionData {
+	key: string;
+	name: string;
+	parentCollection: string | false;
+}
+
+interface ApiSearchData {
+	key: string;
+	name: string;
+	conditions: SavedSearch["conditions"];
+}
+
+interface ApiGroup {
+	id: number;
+	data: { name: string };
+}
+
+type ApiItem = ApiObject<ApiItemData>;
+
+// ── HTTP ─────────────────────────────────────────────────────────────
+
+async function getJson<T>(url: string): Promise<{ json: T; headers: Record<string, string> }> {
+	const response = await requestUrl({ url, headers: { "Zotero-API-Version": "3" }, throw: false });
+	if (response.status !== 200) {
+		throw new Error(`Zotero local API returned ${response.status} for ${url}`);
+	}
+	return { json: response.json as T, headers: response.headers };
+}
+
+function getHeader(headers: Record<string, string>, name: string): string {
+	const key = Object.keys(headers).find(k => k.toLowerCase() === name.toLowerCase());
+	return key ? headers[key]! : "";
+}
+
+/**
+ * Read every page of a listing. Returns the objects and the library
+ * version of the listing (Last-Modified-Version).
+ */
+async function getAll<T>(url: string): Promise<{ objects: T[]; version: number }> {
+	const objects: T[] = [];
+	let version = 0;
+	const separator = url.includes("?") ? "&" : "?";
+	for (let start = 0; ; start += PAGE_SIZE) {
+		const { json, headers } = await getJson<T[]>(`${url}${separator}limit=${PAGE_SIZE}&start=${start}`);
+		objects.push(...json);
+		version = Math.max(version, Number(getHeader(headers, "Last-Modified-Version")) || 0);
+		const total = Number(getHeader(headers, "Total-Results"));
+		if (json.length < PAGE_SIZE || (total && objects.length >= total)) return { objects, version };
+	}
+}
+
+// ── Main entry point ─────────────────────────────────────────────────
+
+/**
+ * Read My Library and the group libraries through the local API, in the
+ * shape of readZoteroDatabase. Attachment paths are resolved against the
+ * data directory of dbPath. Throws when Zotero is not running or its
+ * local API is turned off.
+ */
+export async function readLocalApi(apiUrl: string, dbPath: string, options: ZoteroReadOptions = {}): Promise<ZoteroData> {
+	const baseUrl = apiUrl.replace(/\/+$/, "");
+	const onProgress = options.onProgress ?? (() => {});
+	try {
+		onProgress("opening");
+		const libraries = await readLibraries(baseUrl, options.knownLibraries ?? {});
+		const schema = await readSchema(baseUrl);
+
+		onProgress("items");
+		const libraryItems: Reference[] = [];
+		const memberships: Record<string, string[]> = {};
+		const trashedItemKeys: string[] = [];
+		const liveItemKeys: string[] = [];
+		const libraryVersions: Record<number, number> = {};
+		for (const library of Object.values(libraries)) {
+			const libraryUrl = getLibraryUrl(baseUrl, library);
+			const { objects, version } = await getAll<ApiItem>(`${libraryUrl}/items?sort=dateAdded&direction=asc`);
+			const tagColors = await readTagColors(libraryUrl);
+			const references = createReferences(objects, library, libraries, schema, tagColors, libraryItems.length + 1);
+			for (const item of objects) {
+				if (CHILD_ITEM_TYPES.has(item.data.itemType)) continue;
+				const identity = getItemIdentity({ libraryID: library.libraryID, itemKey: item.key });
+				liveItemKeys.push(identity);
+				for (const collectionKey of item.data.collections ?? []) {
+					const collection = getItemIdentity({ libraryID: library.libraryID, itemKey: collectionKey });
+					if (!memberships[collection]) memberships[collection] = [];
+					memberships[collection].push(identity);
+				}
+			}
+			libraryItems.push(...references);
+			libraryVersions[library.libraryID] = version;
+
+			const trash = await getAll<ApiItem>(`${libraryUrl}/items/trash`);
+			for (const item of trash.objects) {
+				if (CHILD_ITEM_TYPES.has(item.data.itemType)) continue;
+				trashedItemKeys.push(getItemIdentity({ libraryID: library.libraryID, itemKey: item.key }));
+			}
+		}
+		await assignBBTCiteKeys(baseUrl, libraryItems);
+
+		const { items, missingCitationKeyCount } = applyFallbackCitationKeys(libraryItems, options.fallbackCitationKeyFormat);
+		resolveAttachmentPaths(items, dbPath, options);
+
+		onProgress("collections");
+		const collections: Record<string, Collection> = {};
+		const savedSearches: Record<string, SavedSearch> = {};
+		for (const library of Object.values(libraries)) {
+			const libraryUrl = getLibraryUrl(baseUrl, library);
+			const { objects } = await getAll<ApiObject<ApiCollectionData>>(`${libraryUrl}/collections`);
+			for (const { data } of objects) {
+				const identity = getItemIdentity({ libraryID: library.libraryID, itemKey: data.key });
+				collections[identity] = {
+					collections: [],
+					items: memberships[identity] ?? [],
+					key: data.key,
+					name: data.name,
+					parent: data.parentCollection ? getItemIdentity({ libraryID: library.libraryID, itemKey: data.parentCollection }) : "",
+					libraryID: library.libraryID,
+				};
+			}
+			const searches = await getAll<ApiObject<ApiSearchData>>(`${libraryUrl}/searches`);
+			for (const { data } of searches.objects) {
+				const search: SavedSearch = { key: data.key, name: data.name, libraryID: library.libraryID, conditions: data.conditions ?? [] };
+				savedSearches[getItemIdentity({ libraryID: library.libraryID, itemKey: search.key })] = search;
+			}
+		}
+
+		const clientDateModified = items.reduce((newest, item) => item.dateModified > newest ? item.dateModified : newest, "");
+		return {
+			items,
+			collections,
+			libraries,
+			savedSearches,
+			trashedItemKeys,
+			liveItemKeys,
+			missingCitationKeyCount,
+			creatorTypes: schema?.creatorTypes ?? [],
+			watermark: { clientDateModified, libraryVersions, maxItemID: items.length, itemCount: items.length },
+		};
+	} finally {
+		onProgress("done");
+	}
+}
+
+function getLibraryUrl(baseUrl: string, library: Library): string {
+	return library.type === "group" ? `${baseUrl}/groups/${library.groupID}` : `${baseUrl}/users/0`;
+}
+
+// ── Libraries, schema and tag colours ────────────────────────────────
+
+/**
+ * My Library and the group libraries. The local API only knows groups by
+ * their groupID, while item identities, the library filter and
+ * BetterBibTeX use Zotero's libraryID: groups take the libraryID of a
+ * previous database read. Throws when a group was never read from the
+ * database, so that getDataSource reads the database instead.
+ */
+async function readLibraries(baseUrl: string, knownLibraries: Record<number, Library>): Promise<Record<number, Library>> {
+	// My Library is always library 1
+	const libraries: Record<number, Library> = { 1: { libraryID: 1, type: "user", groupID: 0, name: "My Library" } };
+	const known = Object.values(knownLibraries);
+
+	const { objects: groups } = await getAll<ApiGroup>(`${baseUrl}/users/0/groups`);
+	for (const group of groups) {
+		const libraryID = known.find(l => l.type === "group" && l.groupID === group.id)?.libraryID;
+		if (libraryID === undefined) {
+			throw new Error(`The libraryID of group ${group.id} is not known yet`);
+		}
+		libraries[libraryID] = { libraryID, type: "group", groupID: group.id, name: group.data.name };
+	}
+	return libraries;
+}
+
+/**
+ * Item type labels, base fields and creator types from the schema.
+ * Without them, labels are derived from the type names, base fields are
+ * left out and templates only get the roles of each entry.
+ */
+async function readSchema(baseUrl: string): Promise<ItemSchema | undefined> {
+	try {
+		const { json } = await getJson<GlobalSchema>(`${baseUrl}/schema`);
+		return parseGlobalSchema(json);
+	} catch (e) {
+		console.warn("[BibNotes] Could not read the Zotero schema from the local API:", e);
+		return undefined;
+	}
+}
+
+/** Names of the coloured and emoji tags of a library, in Zotero's order */
+async function readTagColors(libraryUrl: string): Promise<string[]> {
+	try {
+		const { json } = await getJson<{ value?: { name?: string }[] }>(`${libraryUrl}/settings/tagColors`);
+		return (json.value ?? []).map(c => c.name ?? "").filter(name => name.length > 0);
+	} catch {
+		// No tag colours set in this library
+		return [];
+	}
+}
+
+// ── Items ────────────────────────────────────────────────────────────
+
+/**
+ * Build the Reference objects of the regular items of a library listing,
+ * with their children. The local API does not expose Zotero's itemIDs:
+ * items are numbered from firstItemID on in the order they were added,
+ * which only orders generated citation keys. Everything else finds items
+ * by their identity.
+ */
+function createReferences(
+	objects: ApiItem[],
+	library: Library,
+	libraries: Record<number, Library>,
+	schema: ItemSchema | undefined,
+	tagColors: string[],
+	firstItemID: number
+): Reference[] {
+	const childrenByParent: Record<string, ApiItemData[]> = {};
+	for (const { data } of objects) {
+		if (!data.parentItem) continue;
+		if (!childrenByParent[data.parentItem]) childrenByParent[data.parentItem] = [];
+		childrenByParent[data.parentItem]!.push(data);
+	}
+	const libraryPath = zoteroLibraryPath(library.groupID);
+
+	const references: Reference[] = [];
+	for (const { data } of objects) {
+		if (CHILD_ITEM_TYPES.has(data.itemType)) continue;
+
+		const fields: Record<string, string> = {};
+		for (const [field, value] of Object.entries(data)) {
+			if (typeof value === "string" || typeof value === "number") fields[field] = String(value);
+		}
+		const baseFields = applyBaseFields(schema, data.itemType, fields);
+		const extraFields = parseExtraField(baseFields.extra || "");
+		const citationKey = baseFields.citationKey || getExtraField(extraFields, "Citation Key");
+		const children = childrenByParent[data.key] ?? [];
+		const attachments = children.filter(child => child.itemType === "attachment");
+		const tags = (data.tags ?? []).map(t => ({ tag: t.tag, type: t.type ?? 0 }));
+		const tagNames = new Set(tags.map(t => t.tag));
+
+		references.push(buildReference({
+			// ── identifiers ──
+			itemID: firstItemID + references.length,
+			itemKey: data.key,
+			citationKey,
+			citeKey: citationKey,
+			citationKeyGenerated: false,
+			itemType: data.itemType,
+			itemTypeLabel: getItemTypeLabel(schema, data.itemType),
+
+			// ── library ──
+			libraryID: library.libraryID,
+			groupID: library.groupID,
+			libraryName: library.name,
+			sourceName: "",
+			feedName: "",
+
+			// ── basic metadata ──
+			title: baseFields.title || "",
+			date: baseFields.date || "",
+			dateAdded: toSqlDate(data.dateAdded),
+			dateModified: toSqlDate(data.dateModified),
+			publicationTitle: baseFields.publicationTitle || baseFields.journalAbbreviation || "",
+			volume: baseFields.volume || "",
+			issue: baseFields.issue || "",
+			pages: baseFields.pages || "",
+
+			// ── relationships ──
+			creators: (data.creators ?? []).map(c => ({
+				creatorType: c.creatorType,
+				firstName: c.firstName ?? "",
+				lastName: c.lastName ?? "",
+				name: c.name ?? "",
+			})),
+			tags,
+			coloredTags: tagColors.filter(name => tagNames.has(name)),
+			attachments: attachments.map(attachment => createAttachment(attachment, libraryPath)),
+			notes: children.filter(child => child.itemType === "note").map(createNote),
+			annotations: attachments.flatMap(attachment =>
+				(childrenByParent[attachment.key] ?? [])
+					.filter(child => child.itemType === "annotation")
+					.map(child => createAnnotation(child, library))
+					.sort((a, b) => a.sortIndex.localeCompare(b.sortIndex))),
+			relatedItems: getRelatedItems(data, libraries),
+			extraFields,
+			isRetracted: false,
+			retractionDate: "",
+
+			// ── Zotero links ──
+			select: `zotero://select/${libraryPath}/items/${data.key}`,
+		}, baseFields));
+	}
+	return references;
+}
+
+/** "2024-01-31T12:00:00Z" → "2024-01-31 12:00:00", the form of zotero.sqlite */
+function toSqlDate(date: string | undefined): string {
+	return (date ?? "").replace("T", " ").replace(/(\.\d+)?Z$/, "");
+}
+
+/**
+ * Stored files get the "storage:<file>" path of zotero.sqlite and linked
+ * files their own path, so that resolveAttachmentPaths handles both.
+ */
+function createAttachment(data: ApiItemData, libraryPath: string): Reference["attachments"][number] {
+	const filename = asString(data.filename);
+	const filePath = data.linkMode === "imported_file" || data.linkMode === "imported_url"
+		? (filename ? "storage:" + filename : "")
+		: asString(data.path);
+	return {
+		dateAdded: toSqlDate(data.dateAdded),
+		dateModified: toSqlDate(data.dateModified),
+		itemType: "attachment",
+		key: data.key,
+		contentType: asString(data.contentType),
+		path: filePath,
+		relations: [],
+		select: `zotero://select/${libraryPath}/items/${data.key}`,
+		tags: [],
+		// Untitled attachments are named after their file
+		title: asString(data.title) || filePath.replace(/^(storage|attachments):/, "").split(/[\\/]/).pop() || "",
+		uri: "",
+	};
+}
+
+function createNote(data: ApiItemData): Reference["notes"][number] {
+	const note = asString(data.note);
+	return {
+		dateAdded: toSqlDate(data.dateAdded),
+		dateModified: toSqlDate(data.dateModified),
+		itemType: "note",
+		key: data.key,
+		note,
+		title: getNoteTitle(note),
+		parentItem: "" as Reference["notes"][number]["parentItem"],
+		relations: [],
+		tags: [],
+		uri: "",
+		version: 0,
+	};
+}
+
+/** First line of the text of a note, which Zotero uses as its title */
+function getNoteTitle(note: string): string {
+	const text = note
+		.replace(/<\/(p|h\d|div|li|pre|blockquote)>|<br\s*\/?>/gi, "\n")
+		.replace(/<[^>]*>/g, "")
+		.replace(/&nbsp;/g, " ")
+		.replace(/&lt;/g, "<")
+		.replace(/&gt;/g, ">")
+		.replace(/&amp;/g, "&");
+	return text.split("\n").map(line => line.trim()).find(line => line.length > 0) ?? "";
+}
+
+function createAnnotation(data: ApiItemData, library: Library): Annotation {
+	let pageIndex = -1;
+	try {
+		const position = JSON.parse(asString(data.annotationPosition)) as { pageIndex?: number };
+		if (typeof position.pageIndex === "number") pageIndex = position.pageIndex;
+	} catch {
+		// Position is not valid JSON (e.g. EPUB/snapshot annotations)
+	}
+	const annotationType = asString(data.annotationType);
+	return {
+		key: data.key,
+		attachmentKey: data.parentItem ?? "",
+		groupID: library.groupID,
+		annotationType: ANNOTATION_TYPES.has(annotationType) ? annotationType as Annotation["annotationType"] : "highlight",
+		text: asString(data.annotationText),
+		comment: asString(data.annotationComment),
+		color: asString(data.annotationColor).toLowerCase(),
+		pageLabel: asString(data.annotationPageLabel),
+		pageIndex,
+		sortIndex: asString(data.annotationSortIndex),
+		tags: (data.tags ?? []).map(t => t.tag),
+		dateAdded: toSqlDate(data.dateAdded),
+		dateModified: toSqlDate(data.dateModified),
+	};
+}
+
+/** Identities of the items of the manual "Related" links (dc:relation) */
+function getRelatedItems(data: ApiItemData, libraries: Record<number, Library>): string[] {
+	const relations = data.relations?.["dc:relation"] ?? [];
+	const identities = (Array.isArray(relations) ? relations : [relations])
+		.map(uri => getRelatedItemIdentity(uri, libraries))
+		.filter((identity): identity is string => identity !== null);
+	return [...new Set(identities)];
+}
+
+// ── BetterBibTeX citation keys ───────────────────────────────────────
+
+/**
+ * Ask BetterBibTeX for the citation keys of the items, through its
+ * JSON-RPC endpoint next to the local API. Items keep the key of their
+ * Zotero field or Extra when BetterBibTeX is not installed.
+ */
+async function assignBBTCiteKeys(baseUrl: string, items: Reference[]): Promise<void> {
+	if (items.length === 0) return;
+	// BetterBibTeX takes "<libraryID>:<itemKey>", or the item key alone for My Library
+	const requestKeys = items.map(item => item.libraryID === 1 ? item.itemKey : `${item.libraryID}:${item.itemKey}`);
+	let citeKeys: Record<string, string> = {};
+	try {
+		const response = await requestUrl({
+			url: new URL(baseUrl).origin + "/better-bibtex/json-rpc",
+			method: "POST",
+			contentType: "application/json",
+			body: JSON.stringify({ jsonrpc: "2.0", method: "item.citationkey", params: [requestKeys], id: 1 }),
+			throw: false,
+		});
+		if (response.status !== 200) return;
+		citeKeys = (response.json as { result?: Record<string, string> }).result ?? {};
+	} catch {
+		// BetterBibTeX is not installed
+		return;
+	}
+	items.forEach((item, index) => {
+		const citeKey = citeKeys[requestKeys[index]!];
+		if (citeKey) {
+			item.citationKey = citeKey;
+			item.citeKey = citeKey;
+		}
+	});
+}
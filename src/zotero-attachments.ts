@@ -0,0 +1,116 @@
+/**
+ * Zotero Attachment Mirror
+ *
+ * Copies the PDF and EPUB attachments of an entry into a vault folder, or
+ * links them there with a symlink, so that they can be read and annotated
+ * with Obsidian's own viewer and linked with #page=N. Copies are refreshed
+ * when the attachment's dateModified in Zotero is newer than the copy, or
+ * the file itself when the source has no dates (Better BibTeX exports).
+ */
+
+import { App, FileSystemAdapter, TFile, normalizePath } from "obsidian";
+import * as fs from "fs";
+import * as path from "path";
+import { Reference } from "./types";
+
+type Attachment = Reference["attachments"][number];
+
+export interface MirrorOptions {
+	mode: "Off" | "Copy" | "Symlink";
+	/** Vault folder receiving the mirrored files */
+	folder: string;
+}
+
+const MIRRORED_CONTENT_TYPES = new Set(["application/pdf", "application/epub+zip"]);
+const MIRRORED_EXTENSIONS = new Set([".pdf", ".epub"]);
+
+function isMirrored(attachment: Attachment): boolean {
+	if (attachment.itemType !== "attachment" || !attachment.path) return false;
+	return MIRRORED_CONTENT_TYPES.has(attachment.contentType) ||
+		MIRRORED_EXTENSIONS.has(path.extname(attachment.path).toLowerCase());
+}
+
+/**
+ * Name of the mirrored file: the citation key, numbered from the second
+ * attachment on (e.g. smith2020.pdf, smith2020-2.epub).
+ */
+function mirrorFileName(reference: Reference, attachment: Attachment, index: number): string {
+	const base = reference.citationKey.replace(/[/\\?%*:|"<>]/g, "") || reference.itemKey;
+	const extension = path.extname(attachment.path).toLowerCase() ||
+		(attachment.contentType === "application/epub+zip" ? ".epub" : ".pdf");
+	return index === 0 ? base + extension : `${base}-${index + 1}${extension}`;
+}
+
+/**
+ * Link the attachment into the vault, replacing a link to another file
+ * (e.g. after the attachment was renamed in Zotero). Returns false when
+ * symlinks are not available (e.g. missing permission on Windows) or a
+ * regular file is already in the way, so that the caller can copy the
+ * file instead.
+ */
+function linkAttachment(app: App, attachment: Attachment, vaultPath: string): boolean {
+	const adapter = app.vault.adapter;
+	if (!(adapter instanceof FileSystemAdapter)) return false;
+	const fullPath = adapter.getFullPath(vaultPath);
+	try {
+		// lstat also sees links whose target has moved
+		const stat = fs.lstatSync(fullPath, { throwIfNoEntry: false });
+		if (stat) {
+			if (!stat.isSymbolicLink()) return false;
+			if (fs.readlinkSync(fullPath) === attachment.path) return true;
+			fs.unlinkSync(fullPath);
+		}
+		fs.symlinkSync(attachment.path, fullPath);
+		return true;
+	} catch (e) {
+		console.warn("[BibNotes] Could not create symlink, copying instead:", e);
+		return false;
+	}
+}
+
+async function copyAttachment(app: App, attachment: Attachment, vaultPath: string): Promise<void> {
+	const existing = app.vault.getAbstractFileByPath(vaultPath);
+	if (existing instanceof TFile) {
+		// Zotero timestamps are UTC ("YYYY-MM-DD HH:MM:SS"); exports have none, use the file's own
+		let modified = Date.parse(attachment.dateModified.replace(" ", "T") + "Z");
+		if (Number.isNaN(modified)) modified = fs.statSync(attachment.path).mtimeMs;
+		if (!(modified > existing.stat.mtime)) return;
+	}
+	const data = fs.readFileSync(attachment.path);
+	const buffer = data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength);
+	if (existing instanceof TFile) {
+		await app.vault.modifyBinary(existing, buffer);
+	} else {
+		await app.vault.createBinary(vaultPath, buffer);
+	}
+}
+
+/**
+ * Mirror the PDF and EPUB attachments of an entry into the vault and
+ * return the vault paths of the mirrored files.
+ * Attachments that cannot be found on disk are skipped.
+ */
+export async function mirrorAttachments(app: App, reference: Reference, options: MirrorOptions): Promise<string[]> {
+	if (options.mode === "Off") return [];
+	const attachments = reference.attachments.filter(a => isMirrored(a) && fs.existsSync(a.path));
+	if (attachments.length === 0) return [];
+
+	const folder = normalizePath(options.folder);
+	if (!(await app.vault.adapter.exists(folder))) {
+		await app.vault.createFolder(folder);
+	}
+
+	const mirrored: string[] = [];
+	for (const [index, attachment] of attachments.entries()) {
+		const vaultPath = normalizePath(folder + "/" + mirrorFileName(reference, attachment, index));
+		try {
+			if (!(options.mode === "Symlink" && linkAttachment(app, attachment, vaultPath))) {
+				await copyAttachment(app, attachment, vaultPath);
+			}
+			mirrored.push(vaultPath);
+		} catch (e) {
+			console.warn("[BibNotes] Could not mirror attachment:", attachment.path, e);
+		}
+	}
+	return mirrored;
+}
@@ -3,11 +3,15 @@
  * 
  * Caches Zotero database data with incremental updates.
  * Only reads changed items from database for better performance.
+ * The search index of the cached items (zotero-search-index.ts) is saved
+ * next to the cache file and updated with it.
  */
 
-import { Reference, Collection } from "./types";
+import { Reference, Collection, Library, SavedSearch } from "./types";
 import { App, normalizePath } from "obsidian";
 import { getDbModificationTime } from "./zotero-db";
+import { getItemIdentity, ReadWatermark } from "./zotero-reader";
+import { SearchIndex, SerializedSearchIndex } from "./zotero-search-index";
 
 // ── Cache Types ─────────────────────────────────────────────────────
 
@@ -15,7 +19,6 @@ export interface CachedReference extends Reference {
 	authorFullNames?: string[];
 	keywords?: string[];
 	jelCodes?: string[];
-	dateAdded?: string;
 }
 
 interface ZoteroCache {
@@ -24,28 +27,46 @@ interface ZoteroCache {
 	dbLastModified: number;
 	items: CachedReference[];
 	collections: Record<string, Collection>;
-	itemIndex: Record<string, number>; // citationKey -> index mapping
+	libraries: Record<number, Library>;
+	savedSearches: Record<string, SavedSearch>;
+	creatorTypes: string[];
+	itemIndex: Record<string, number>; // libraryID/itemKey -> index mapping
+	watermark: ReadWatermark; // where the last read left off, for incremental updates
 }
 
+// Bump when the cached item shape changes: older caches are discarded
+const CACHE_VERSION = 15;
+
 // ── Cache Manager Class ─────────────────────────────────────────────
 
 export class ZoteroCacheManager {
 	private cache: ZoteroCache | null = null;
+	private searchIndex: SearchIndex | null = null;
 	private cacheFilePath: string = "";
 	private dbPath: string = "";
+	private cacheName: string;
 	private app: App;
 
-	constructor(app: App, dbPath: string) {
+	constructor(app: App, dbPath: string, cacheName = "zotero-cache") {
 		this.app = app;
 		this.dbPath = dbPath;
+		this.cacheName = cacheName;
 		this.cacheFilePath = this.getCacheFilePath();
 	}
 
 	/**
-	 * Get the path to the cache file (vault-relative, stored in plugin data folder)
+	 * Get the path to the cache file (vault-relative, stored in plugin data folder).
+	 * Every Zotero source has its own cache file.
 	 */
 	private getCacheFilePath(): string {
-		return normalizePath(this.app.vault.configDir + "/plugins/zotero-direct/zotero-cache.json");
+		return normalizePath(this.app.vault.configDir + `/plugins/zotero-direct/${this.cacheName}.json`);
+	}
+
+	/**
+	 * Path of the search index file, next to the cache file.
+	 */
+	private getIndexFilePath(): string {
+		return this.cacheFilePath.replace(/\.json$/, ".index.json");
 	}
 
 	/**
@@ -58,6 +79,11 @@ export class ZoteroCacheManager {
 			}
 			const data = await this.app.vault.adapter.read(this.cacheFilePath);
 			const cache = JSON.parse(data) as ZoteroCache;
+
+			// Discard caches written by an older version of the plugin
+			if (cache.version !== CACHE_VERSION) {
+				return null;
+			}
 			
 			// Rebuild index if missing
 			if (!cache.itemIndex) {
@@ -65,6 +91,7 @@ export class ZoteroCacheManager {
 			}
 			
 			this.cache = cache;
+			this.searchIndex = await this.loadSearchIndex(cache);
 			return cache;
 		} catch (e) {
 			 
@@ -73,6 +100,24 @@ export class ZoteroCacheManager {
 		}
 	}
 
+	/**
+	 * Load the search index of the cache, or rebuild it when its file is
+	 * missing or does not match the cache.
+	 */
+	private async loadSearchIndex(cache: ZoteroCache): Promise<SearchIndex> {
+		const indexFilePath = this.getIndexFilePath();
+		try {
+			if (await this.app.vault.adapter.exists(indexFilePath)) {
+				const data = JSON.parse(await this.app.vault.adapter.read(indexFilePath)) as SerializedSearchIndex;
+				const index = SearchIndex.fromJSON(data, cache.lastModified);
+				if (index) return index;
+			}
+		} catch (e) {
+			console.warn("[BibNotes] Failed to load search index, rebuilding it:", e);
+		}
+		return SearchIndex.build(cache.items);
+	}
+
 	/**
 	 * Save cache to disk
 	 */
@@ -82,6 +127,10 @@ export class ZoteroCacheManager {
 				// Update index before saving
 				this.cache.itemIndex = this.buildItemIndex(this.cache.items);
 				await this.app.vault.adapter.write(this.cacheFilePath, JSON.stringify(this.cache, null, 2));
+				const index = this.getSearchIndex();
+				if (index) {
+					await this.app.vault.adapter.write(this.getIndexFilePath(), JSON.stringify(index.toJSON(this.cache.lastModified)));
+				}
 			}
 		} catch (e) {
 			 
@@ -90,13 +139,14 @@ export class ZoteroCacheManager {
 	}
 
 	/**
-	 * Build citationKey -> index mapping for fast lookup
+	 * Build libraryID/itemKey -> index mapping for fast lookup.
+	 * Citation keys and item keys are only unique within a library.
 	 */
 	private buildItemIndex(items: CachedReference[]): Record<string, number> {
 		const index: Record<string, number> = {};
 		items.forEach((item, i) => {
-			if (item.citationKey) {
-				index[item.citationKey] = i;
+			if (item.itemKey) {
+				index[getItemIdentity(item)] = i;
 			}
 		});
 		return index;
@@ -126,12 +176,25 @@ export class ZoteroCacheManager {
 		return this.cache;
 	}
 
+	/**
+	 * Search index of the cached items (null if cache is empty)
+	 */
+	getSearchIndex(): SearchIndex | null {
+		if (!this.cache) return null;
+		if (!this.searchIndex) this.searchIndex = SearchIndex.build(this.cache.items);
+		return this.searchIndex;
+	}
+
 	/**
 	 * Update cache with new/updated items
 	 */
 	updateCache(
 		items: CachedReference[],
 		collections: Record<string, Collection>,
+		libraries: Record<number, Library>,
+		savedSearches: Record<string, SavedSearch>,
+		creatorTypes: string[],
+		watermark: ReadWatermark,
 		updatedItemKeys?: string[]
 	): void {
 		const dbLastModified = this.getDbLastModified();
@@ -139,49 +202,83 @@ export class ZoteroCacheManager {
 		if (!this.cache) {
 			// First time: create new cache
 			this.cache = {
-				version: 1,
+				version: CACHE_VERSION,
 				lastModified: new Date().toISOString(),
 				dbLastModified,
 				items,
 				collections,
+				libraries,
+				savedSearches,
+				creatorTypes,
 				itemIndex: this.buildItemIndex(items),
+				watermark,
 			};
+			this.searchIndex = SearchIndex.build(items);
 		} else {
-			// Incremental update
-			if (updatedItemKeys && updatedItemKeys.length > 0) {
+			// Incremental update (may update no item, e.g. when items were only trashed)
+			if (updatedItemKeys) {
 				// Update only changed items
+				const searchIndex = this.getSearchIndex()!;
 				for (const item of items) {
-					const existingIndex = this.cache.itemIndex[item.citationKey];
+					const existingIndex = this.cache.itemIndex[getItemIdentity(item)];
 					if (existingIndex !== undefined) {
 						// Update existing item
+						searchIndex.add(item, this.cache.items[existingIndex]);
 						this.cache.items[existingIndex] = item;
 					} else {
 						// Add new item
+						searchIndex.add(item);
 						this.cache.items.push(item);
 					}
 				}
 				// Rebuild index after updates
 				this.cache.itemIndex = this.buildItemIndex(this.cache.items);
+				this.cache.collections = collections;
+				this.cache.libraries = libraries;
+				this.cache.savedSearches = savedSearches;
+				this.cache.creatorTypes = creatorTypes;
 			} else {
 				// Full refresh
 				this.cache.items = items;
 				this.cache.collections = collections;
+				this.cache.libraries = libraries;
+				this.cache.savedSearches = savedSearches;
+				this.cache.creatorTypes = creatorTypes;
 				this.cache.itemIndex = this.buildItemIndex(items);
+				this.searchIndex = SearchIndex.build(items);
 			}
 			
 			this.cache.dbLastModified = dbLastModified;
 			this.cache.lastModified = new Date().toISOString();
+			this.cache.watermark = watermark;
 		}
 	}
 
 	/**
-	 * Get item by citation key (fast lookup using index)
+	 * Remove the cached items that no longer exist in Zotero (trashed or
+	 * purged) and return them. liveItemKeys are the identities of the items
+	 * still in the database.
 	 */
-	getItemByCitationKey(citationKey: string): CachedReference | null {
+	pruneItems(liveItemKeys: Set<string>): CachedReference[] {
+		if (!this.cache) return [];
+		const removed = this.cache.items.filter(item => !liveItemKeys.has(getItemIdentity(item)));
+		if (removed.length > 0) {
+			this.cache.items = this.cache.items.filter(item => liveItemKeys.has(getItemIdentity(item)));
+			this.cache.itemIndex = this.buildItemIndex(this.cache.items);
+			const searchIndex = this.getSearchIndex()!;
+			for (const item of removed) searchIndex.remove(item);
+		}
+		return removed;
+	}
+
+	/**
+	 * Get item by library and item key (fast lookup using index)
+	 */
+	getItemByKey(libraryID: number, itemKey: string): CachedReference | null {
 		if (!this.cache || !this.cache.itemIndex) {
 			return null;
 		}
-		const index = this.cache.itemIndex[citationKey];
+		const index = this.cache.itemIndex[getItemIdentity({ libraryID, itemKey })];
 		if (index !== undefined && index >= 0 && index < this.cache.items.length) {
 			return this.cache.items[index] ?? null;
 		}
@@ -189,140 +286,48 @@ export class ZoteroCacheManager {
 	}
 
 	/**
-	 * Search items by keyword (searches title, abstract, authors, keywords)
-	 * Supports combination search with multiple keywords separated by spaces.
-	 * Items matching all keywords are prioritized and sorted by match score.
-	 */
-	searchItems(query: string): CachedReference[] {
-		const results = this.searchItemsWithScore(query);
-		return results.map(r => r.item);
-	}
-
-	/**
-	 * Search items and return with scores for advanced sorting
+	 * Get item by citation key. When the same key exists in several
+	 * libraries, the item from My Library (lowest libraryID) wins.
 	 */
-	searchItemsWithScore(query: string): { item: CachedReference; score: number; matchesAllKeywords: boolean }[] {
+	getItemByCitationKey(citationKey: string): CachedReference | null {
 		if (!this.cache) {
-			return [];
-		}
-
-		const lowerQuery = query.toLowerCase().trim();
-		if (!lowerQuery) {
-			return this.cache.items.map(item => ({ item, score: 0, matchesAllKeywords: true }));
+			return null;
 		}
-
-		// Split query into individual keywords
-		const keywords = lowerQuery.split(/\s+/).filter(kw => kw.length > 0);
-		
-		const scoredItems: { item: CachedReference; score: number; matchesAllKeywords: boolean }[] = [];
-
+		let found: CachedReference | null = null;
 		for (const item of this.cache.items) {
-			// Get searchable text from various fields
-			const searchableText = this.getSearchableText(item);
-			
-			// Calculate match score
-			const scoreResult = this.calculateMatchScore(searchableText, keywords);
-			
-			if (scoreResult.score > 0) {
-				scoredItems.push({
-					item,
-					score: scoreResult.score,
-					matchesAllKeywords: scoreResult.matchesAll
-				});
-			}
+			if (item.citationKey !== citationKey) continue;
+			if (!found || item.libraryID < found.libraryID) found = item;
 		}
-
-		// Sort by: 1) matches all keywords (desc), 2) score (desc)
-		scoredItems.sort((a, b) => {
-			if (a.matchesAllKeywords !== b.matchesAllKeywords) {
-				return a.matchesAllKeywords ? -1 : 1;
-			}
-			return b.score - a.score;
-		});
-
-		return scoredItems;
+		return found;
 	}
 
 	/**
-	 * Get searchable text from item fields
+	 * Search items by keyword (searches title, authors, journal, citation
+	 * key, tags and abstract). Supports combination search with multiple
+	 * keywords separated by spaces; items matching all keywords come first.
 	 */
-	private getSearchableText(item: CachedReference): string {
-		const parts: string[] = [];
-		
-		if (item.title) parts.push(item.title);
-		if (item.abstractNote) parts.push(item.abstractNote);
-		if (item.authorKey) parts.push(item.authorKey);
-		if (item.authorFullNames) parts.push(...item.authorFullNames);
-		if (item.keywords) parts.push(...item.keywords);
-		if (item.tags) parts.push(...item.tags.map(t => t.tag));
-		if (item.jelCodes) parts.push(...item.jelCodes);
-		if (item.publicationTitle) parts.push(item.publicationTitle);
-		if (item.citationKey) parts.push(item.citationKey);
-		
-		return parts.join(' ').toLowerCase();
+	searchItems(query: string): CachedReference[] {
+		const results = this.searchItemsWithScore(query);
+		return results.map(r => r.item);
 	}
 
 	/**
-	 * Calculate match score for an item
-	 * Returns score and whether all keywords were matched
+	 * Search items and return with scores for advanced sorting
 	 */
-	private calculateMatchScore(text: string, keywords: string[]): { score: number; matchesAll: boolean } {
-		let totalScore = 0;
-		let matchedKeywords = 0;
-
-		for (const keyword of keywords) {
-			let keywordScore = 0;
-
-			// Check for exact match (highest score)
-			if (text.includes(keyword)) {
-				keywordScore += 100;
-
-				// Bonus for word boundary match
-				const wordBoundaryRegex = new RegExp(`\\b${this.escapeRegex(keyword)}\\b`, 'i');
-				if (wordBoundaryRegex.test(text)) {
-					keywordScore += 50;
-				}
-
-				// Bonus for exact case match (for multi-word names like "Ross Levine")
-				if (text.toLowerCase().includes(keyword.toLowerCase())) {
-					keywordScore += 25;
-				}
-			}
-
-			// Check for fuzzy/partial match (lower score)
-			if (keywordScore === 0) {
-				// Check if any word in text starts with the keyword
-				const words = text.split(/\s+/);
-				for (const word of words) {
-					if (word.startsWith(keyword)) {
-						keywordScore += 30;
-						break;
-					}
-				}
-			}
-
-			if (keywordScore > 0) {
-				totalScore += keywordScore;
-				matchedKeywords++;
-			}
+	searchItemsWithScore(query: string): { item: CachedReference; score: number; matchesAllKeywords: boolean }[] {
+		const cache = this.cache;
+		if (!cache) {
+			return [];
 		}
 
-		// Bonus for matching all keywords (scaled by number of keywords)
-		if (matchedKeywords === keywords.length && keywords.length > 1) {
-			totalScore += matchedKeywords * 200;
+		if (!query.trim()) {
+			return cache.items.map(item => ({ item, score: 0, matchesAllKeywords: true }));
 		}
 
-		return {
-			score: totalScore,
-			matchesAll: matchedKeywords === keywords.length
-		};
-	}
-
-	/**
-	 * Escape special regex characters
-	 */
-	private escapeRegex(string: string): string {
-		return string.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+		return this.getSearchIndex()!.search(query).flatMap(({ identity, score, matchesAllKeywords }) => {
+			const item = cache.items[cache.itemIndex[identity] ?? -1];
+			return item ? [{ item, score, matchesAllKeywords }] : [];
+		});
 	}
 
 	/**
@@ -330,9 +335,12 @@ export class ZoteroCacheManager {
 	 */
 	async clearCache(): Promise<void> {
 		this.cache = null;
+		this.searchIndex = null;
 		try {
-			if (await this.app.vault.adapter.exists(this.cacheFilePath)) {
-				await this.app.vault.adapter.remove(this.cacheFilePath);
+			for (const filePath of [this.cacheFilePath, this.getIndexFilePath()]) {
+				if (await this.app.vault.adapter.exists(filePath)) {
+					await this.app.vault.adapter.remove(filePath);
+				}
 			}
 		} catch (e) {
 			 
@@ -352,17 +360,19 @@ export class ZoteroCacheManager {
 	}
 }
 
-// ── Singleton instance ──────────────────────────────────────────────
+// ── Instances (one per cache file) ──────────────────────────────────
 
-let cacheManager: ZoteroCacheManager | null = null;
+const cacheManagers = new Map<string, ZoteroCacheManager>();
 
-export function getCacheManager(app: App, dbPath: string): ZoteroCacheManager {
+export function getCacheManager(app: App, dbPath: string, cacheName = "zotero-cache"): ZoteroCacheManager {
+	let cacheManager = cacheManagers.get(cacheName);
 	if (!cacheManager || cacheManager["dbPath"] !== dbPath) {
-		cacheManager = new ZoteroCacheManager(app, dbPath);
+		cacheManager = new ZoteroCacheManager(app, dbPath, cacheName);
+		cacheManagers.set(cacheName, cacheManager);
 	}
 	return cacheManager;
 }
 
 export function clearCacheManager(): void {
-	cacheManager = null;
+	cacheManagers.clear();
 }
@@ -0,0 +1,93 @@
+/**
+ * Fallback Citation Keys
+ *
+ * Items without a Better BibTeX key, a citationKey field or a
+ * "Citation Key:" line in Extra get a key generated from a formula such as
+ * {{authorLastName}}{{year}}{{titleFirstWord}}. Keys that collide with an
+ * existing key of the same library are disambiguated with a/b/c suffixes,
+ * in itemID order so that the same item keeps the same key between reads.
+ * Generated keys are flagged with citationKeyGenerated.
+ */
+
+import { Reference } from "./types";
+
+// Words skipped by {{titleFirstWord}}
+const TITLE_STOP_WORDS = new Set(["a", "an", "the", "on", "of", "in", "and", "for", "to"]);
+
+/** Keep letters and digits only (citation keys must be usable in filenames and links) */
+function cleanKeyPart(value: string): string {
+	return value.replace(/[^\p{L}\p{N}]/gu, "");
+}
+
+/**
+ * Key produced by the formula for a single item, before disambiguation.
+ * Placeholders: {{authorLastName}}, {{year}}, {{titleFirstWord}}, {{title}}, {{itemKey}}.
+ */
+export function formatCitationKey(item: Reference, format: string): string {
+	const creator = item.creators?.[0];
+	const titleWords = (item.title || "").split(/\s+/).map(cleanKeyPart).filter(word => word.length > 0);
+	const values: Record<string, string> = {
+		authorLastName: cleanKeyPart(creator ? creator.lastName || creator.name : ""),
+		year: item.date?.match(/\d{4}/)?.[0] ?? "",
+		titleFirstWord: titleWords.find(word => !TITLE_STOP_WORDS.has(word.toLowerCase())) ?? titleWords[0] ?? "",
+		title: titleWords.join(""),
+		itemKey: item.itemKey,
+	};
+	const key = format.replace(/\{\{(\w+)\}\}/g, (_match, name: string) => values[name] ?? "");
+	return cleanKeyPart(key) || item.itemKey;
+}
+
+/**
+ * Suffix for the n-th duplicate: a, b, ..., z, aa, ab, ...
+ */
+function disambiguationSuffix(n: number): string {
+	let suffix = "";
+	do {
+		suffix = String.fromCharCode(97 + (n % 26)) + suffix;
+		n = Math.floor(n / 26) - 1;
+	} while (n >= 0);
+	return suffix;
+}
+
+/**
+ * Give every item without a citation key a generated one.
+ * Returns the number of generated keys.
+ */
+export function assignFallbackCitationKeys(items: Reference[], format: string): number {
+	const usedKeys = new Set<string>();
+	for (const item of items) {
+		if (item.citationKey) usedKeys.add(`${item.libraryID}/${item.citationKey.toLowerCase()}`);
+	}
+
+	const pending = items
+		.filter(item => !item.citationKey)
+		.sort((a, b) => a.itemID - b.itemID);
+
+	for (const item of pending) {
+		const base = formatCitationKey(item, format);
+		let key = base;
+		for (let n = 0; usedKeys.has(`${item.libraryID}/${key.toLowerCase()}`); n++) {
+			key = base + disambiguationSuffix(n);
+		}
+		usedKeys.add(`${item.libraryID}/${key.toLowerCase()}`);
+		item.citationKey = key;
+		item.citeKey = key;
+		item.citationKeyGenerated = true;
+	}
+	return pending.length;
+}
+
+/**
+ * Handle the items without a citation key the same way for every kind of
+ * source: they get a generated key when a format is set, and are left out
+ * otherwise. Returns the items kept and the number of items that had no key.
+ */
+export function applyFallbackCitationKeys(
+	items: Reference[],
+	format: string | undefined
+): { items: Reference[]; missingCitationKeyCount: number } {
+	const missingCitationKeyCount = items.filter(item => !item.citationKey).length;
+	if (!format) return { items: items.filter(item => item.citationKey), missingCitationKeyCount };
+	assignFallbackCitationKeys(items, format);
+	return { items, missingCitationKeyCount };
+}
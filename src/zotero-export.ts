@@ -0,0 +1,669 @@
+/**
+ * Better BibTeX Export Reader
+ *
+ * Reads a library from an export file instead of zotero.sqlite, for
+ * libraries that are only available as a Better BibTeX auto-export:
+ * - BibLaTeX or BibTeX (.bib)
+ * - BetterCSL JSON or CSL JSON (.json)
+ * Entries become the same Reference objects as database items (Zotero item
+ * types and field names), so that templates work unchanged. Exports have
+ * no collections, notes or annotations, and no modification dates: every
+ * entry counts as modified when the file changes.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { Reference, Library } from "./types";
+import { applyFallbackCitationKeys } from "./zotero-citekeys";
+import { ZoteroReadOptions } from "./zotero-db";
+import { getExtraField, parseExtraField } from "./zotero-extra";
+import { ZoteroData, asString, buildReference, getItemIdentity, zoteroLibraryPath } from "./zotero-reader";
+import { getItemTypeLabel } from "./zotero-schema";
+
+const BIB_EXTENSIONS = new Set([".bib", ".bibtex", ".biblatex"]);
+const JSON_EXTENSIONS = new Set([".json"]);
+
+/** An entry of the export, with Zotero item type and field names */
+interface ExportEntry {
+	citationKey: string;
+	/** Zotero item key, when the export has it (CSL JSON ids) */
+	itemKey: string;
+	itemType: string;
+	fields: Record<string, string>;
+	creators: Reference["creators"];
+	tags: string[];
+	/** Paths of the attached files (BibLaTeX file field) */
+	files: string[];
+}
+
+/**
+ * Whether a source path is an export file rather than a Zotero database.
+ */
+export function isExportFile(filePath: string): boolean {
+	const extension = path.extname(filePath).toLowerCase();
+	return BIB_EXTENSIONS.has(extension) || JSON_EXTENSIONS.has(extension);
+}
+
+// ── Main entry point ─────────────────────────────────────────────────
+
+/**
+ * Read an export file in the shape of readZoteroDatabase. Entries get the
+ * file's modification time as dateModified, so that Update Library
+ * refreshes their notes whenever the export changes.
+ */
+export function readExportFile(filePath: string, options: ZoteroReadOptions = {}): ZoteroData {
+	if (!fs.existsSync(filePath)) {
+		throw new Error("Export file not found at: " + filePath);
+	}
+	const text = fs.readFileSync(filePath, "utf-8");
+	const entries = BIB_EXTENSIONS.has(path.extname(filePath).toLowerCase())
+		? parseBibFile(text)
+		: parseCslFile(text);
+
+	// Zotero timestamps are UTC ("YYYY-MM-DD HH:MM:SS")
+	const dateModified = fs.statSync(filePath).mtime.toISOString().slice(0, 19).replace("T", " ");
+	const library: Library = { libraryID: 1, type: "user", groupID: 0, name: "My Library" };
+	const references = entries.map((entry, index) =>
+		createReference(entry, index + 1, library, dateModified, path.dirname(filePath)));
+
+	const liveItemKeys = references.map(getItemIdentity);
+	const { items, missingCitationKeyCount } = applyFallbackCitationKeys(references, options.fallbackCitationKeyFormat);
+
+	return {
+		items,
+		collections: {},
+		libraries: { [library.libraryID]: library },
+		savedSearches: {},
+		trashedItemKeys: [],
+		liveItemKeys,
+		missingCitationKeyCount,
+		// Exports carry no schema: only the roles found in the file are known
+		creatorTypes: [...new Set(items.flatMap(item => item.creators.map(creator => creator.creatorType)))],
+		watermark: { clientDateModified: dateModified, libraryVersions: {}, maxItemID: items.length, itemCount: items.length },
+	};
+}
+
+function createReference(entry: ExportEntry, itemID: number, library: Library, dateModified: string, exportDir: string): Reference {
+	const { fields } = entry;
+	// Entries without a Zotero key are identified by their citation key
+	const itemKey = entry.itemKey || entry.citationKey || String(itemID);
+	const extraFields = parseExtraField(fields.extra || "");
+	const citationKey = entry.citationKey || getExtraField(extraFields, "Citation Key");
+
+	return buildReference({
+		// ── identifiers ──
+		itemID,
+		itemKey,
+		citationKey,
+		citeKey: citationKey,
+		citationKeyGenerated: false,
+		itemType: entry.itemType,
+		itemTypeLabel: getItemTypeLabel(undefined, entry.itemType),
+
+		// ── library ──
+		libraryID: library.libraryID,
+		groupID: 0,
+		libraryName: library.name,
+		sourceName: "",
+		feedName: "",
+
+		// ── basic metadata ──
+		title: fields.title || "",
+		date: fields.date || "",
+		dateAdded: "",
+		dateModified,
+		publicationTitle: fields.publicationTitle || fields.journalAbbreviation || "",
+		volume: fields.volume || "",
+		issue: fields.issue || "",
+		pages: fields.pages || "",
+
+		// ── relationships ──
+		creators: entry.creators,
+		tags: entry.tags.map(tag => ({ tag, type: 0 })),
+		coloredTags: [],
+		attachments: entry.files.map(file => createAttachment(path.resolve(exportDir, file))),
+		notes: [],
+		annotations: [],
+		relatedItems: [],
+		extraFields,
+		isRetracted: false,
+		retractionDate: "",
+
+		// ── Zotero links ──
+		// Better BibTeX resolves "@<citation key>" when the Zotero key is unknown
+		select: entry.itemKey
+			? `zotero://select/${zoteroLibraryPath(0)}/items/${entry.itemKey}`
+			: `zotero://select/items/@${encodeURIComponent(citationKey)}`,
+	}, fields);
+}
+
+function createAttachment(filePath: string): Reference["attachments"][number] {
+	const extension = path.extname(filePath).toLowerCase();
+	return {
+		dateAdded: "",
+		dateModified: "",
+		itemType: "attachment",
+		key: "",
+		contentType: extension === ".pdf" ? "application/pdf" : extension === ".epub" ? "application/epub+zip" : "",
+		path: filePath,
+		relations: [],
+		select: "",
+		tags: [],
+		title: path.basename(filePath),
+		uri: "",
+	};
+}
+
+// ── Dates ────────────────────────────────────────────────────────────
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+/**
+ * Zotero's multipart form of a date ("2019-03-00 March 2019"), with 00 for
+ * the unknown parts, so that {{year}}, {{month}} and {{dateISO}} work.
+ */
+function toZoteroDate(year: string | number, month: string | number | undefined, day: string | number | undefined, original: string): string {
+	const pad = (value: string | number | undefined) => String(Number(value) || 0).padStart(2, "0");
+	if (!/^\d{1,4}$/.test(String(year))) return original;
+	return `${String(year).padStart(4, "0")}-${pad(month)}-${pad(day)} ${original}`;
+}
+
+/** "5", "05", "may" or "May" → 5 */
+function parseMonth(month: string): number | undefined {
+	if (/^\d{1,2}$/.test(month.trim())) return Number(month);
+	const index = MONTHS.indexOf(month.trim().slice(0, 3).toLowerCase());
+	return index >= 0 ? index + 1 : undefined;
+}
+
+// ── BibLaTeX / BibTeX ────────────────────────────────────────────────
+
+// BibLaTeX entry types and the Zotero item type they come from
+const BIB_TYPES: Record<string, string> = {
+	article: "journalArticle",
+	book: "book",
+	mvbook: "book",
+	booklet: "book",
+	manual: "book",
+	proceedings: "book",
+	inbook: "bookSection",
+	incollection: "bookSection",
+	bookinbook: "bookSection",
+	inproceedings: "conferencePaper",
+	conference: "conferencePaper",
+	thesis: "thesis",
+	phdthesis: "thesis",
+	mastersthesis: "thesis",
+	report: "report",
+	techreport: "report",
+	online: "webpage",
+	electronic: "webpage",
+	www: "webpage",
+	unpublished: "manuscript",
+	patent: "patent",
+	software: "computerProgram",
+	dataset: "dataset",
+	inreference: "encyclopediaArticle",
+	letter: "letter",
+	movie: "film",
+	video: "videoRecording",
+	audio: "audioRecording",
+	legislation: "statute",
+	jurisdiction: "case",
+	artwork: "artwork",
+	misc: "document",
+};
+
+// BibLaTeX fields and the Zotero field they come from
+const BIB_FIELDS: Record<string, string> = {
+	title: "title",
+	shorttitle: "shortTitle",
+	journaltitle: "publicationTitle",
+	journal: "publicationTitle",
+	booktitle: "publicationTitle",
+	shortjournal: "journalAbbreviation",
+	volume: "volume",
+	pages: "pages",
+	pagetotal: "numPages",
+	edition: "edition",
+	publisher: "publisher",
+	institution: "publisher",
+	school: "publisher",
+	organization: "publisher",
+	location: "place",
+	address: "place",
+	series: "series",
+	doi: "DOI",
+	isbn: "ISBN",
+	issn: "ISSN",
+	url: "url",
+	urldate: "accessDate",
+	abstract: "abstractNote",
+	langid: "language",
+	language: "language",
+	type: "type",
+	note: "extra",
+};
+
+// BibLaTeX name lists and the Zotero creator type they come from
+const BIB_CREATORS: Record<string, string> = {
+	author: "author",
+	editor: "editor",
+	translator: "translator",
+	bookauthor: "bookAuthor",
+};
+
+// Fields copied as written: LaTeX escapes do not apply to them
+const BIB_VERBATIM = new Set(["url", "doi"]);
+
+// Fields handled separately or only needed to read other fields
+const BIB_SKIPPED = new Set(["date", "year", "month", "day", "number", "issue", "keywords", "file", "entrysubtype", "ids"]);
+
+// Accent commands ({\"o}, \'{e}) and the combining mark they add
+const LATEX_ACCENTS: Record<string, string> = {
+	"'": "\u0301", "`": "\u0300", "^": "\u0302", "\"": "\u0308", "~": "\u0303",
+	"=": "\u0304", ".": "\u0307", "c": "\u0327", "v": "\u030C", "u": "\u0306", "H": "\u030B",
+};
+
+const LATEX_SYMBOLS: Record<string, string> = {
+	ss: "ß", o: "ø", O: "Ø", aa: "å", AA: "Å", ae: "æ", AE: "Æ", oe: "œ", OE: "Œ", l: "ł", L: "Ł", i: "ı",
+};
+
+/**
+ * Plain text of a BibLaTeX value: accents, escaped characters and
+ * formatting commands are resolved and protecting braces removed.
+ */
+function cleanLatex(value: string): string {
+	return value
+		.replace(/\\([`'^"~=.])\s*\{?([A-Za-z])\}?/g, (_, accent: string, letter: string) => letter + LATEX_ACCENTS[accent])
+		.replace(/\\([cvuH])\s*\{([A-Za-z])\}/g, (_, accent: string, letter: string) => letter + LATEX_ACCENTS[accent])
+		.replace(/\\(ss|aa|AA|ae|AE|oe|OE|o|O|l|L|i)(?![A-Za-z])\s*/g, (_, symbol: string) => LATEX_SYMBOLS[symbol] ?? symbol)
+		.replace(/\\([&%$#_{}])/g, "$1")
+		.replace(/\\[A-Za-z]+\s*(?=\{)/g, "")
+		.replace(/[{}]/g, "")
+		.replace(/~/g, " ")
+		.replace(/\s+/g, " ")
+		.trim()
+		.normalize("NFC");
+}
+
+/** Split on a separator outside braces (e.g. " and " between names) */
+function splitOutsideBraces(value: string, separator: RegExp): string[] {
+	const parts: string[] = [];
+	let depth = 0;
+	let start = 0;
+	for (let i = 0; i < value.length; i++) {
+		const char = value[i];
+		if (char === "{") depth++;
+		else if (char === "}") depth--;
+		else if (depth === 0) {
+			const match = value.slice(i).match(separator);
+			if (match && match.index === 0) {
+				parts.push(value.slice(start, i));
+				i += match[0].length - 1;
+				start = i + 1;
+			}
+		}
+	}
+	parts.push(value.slice(start));
+	return parts.map(part => part.trim()).filter(part => part);
+}
+
+/** Whether the whole value is one braced group ("{World Health Organization}") */
+function isBraced(value: string): boolean {
+	if (!value.startsWith("{")) return false;
+	let depth = 0;
+	for (let i = 0; i < value.length; i++) {
+		if (value[i] === "{") depth++;
+		else if (value[i] === "}" && --depth === 0) return i === value.length - 1;
+	}
+	return false;
+}
+
+/** Split on a separator character that is not escaped with a backslash */
+function splitUnescaped(value: string, separator: string): string[] {
+	const parts = [""];
+	for (let i = 0; i < value.length; i++) {
+		const char = value[i]!;
+		if (char === "\\" && i + 1 < value.length) {
+			parts[parts.length - 1] += char + value[++i];
+		} else if (char === separator) {
+			parts.push("");
+		} else {
+			parts[parts.length - 1] += char;
+		}
+	}
+	return parts;
+}
+
+/**
+ * Parse a BibLaTeX name list: "Last, First and {Institution}". Better
+ * BibTeX's extended form ("family=Last, given=First") is understood too.
+ */
+function parseBibNames(value: string, creatorType: string): Reference["creators"] {
+	return splitOutsideBraces(value, /^\s+and\s+/i).map(name => {
+		// A name wrapped in braces is a single-field name (an institution)
+		if (isBraced(name)) {
+			return { creatorType, firstName: "", lastName: "", name: cleanLatex(name) };
+		}
+		const parts = splitOutsideBraces(name, /^,/);
+		if (parts.some(part => /^(family|given)=/.test(part))) {
+			const extended: Record<string, string> = {};
+			for (const part of parts) {
+				const [key, ...rest] = part.split("=");
+				extended[key!.trim()] = cleanLatex(rest.join("="));
+			}
+			return { creatorType, firstName: extended.given ?? "", lastName: extended.family ?? "", name: "" };
+		}
+		if (parts.length >= 2) {
+			return { creatorType, firstName: cleanLatex(parts[parts.length - 1]!), lastName: cleanLatex(parts[0]!), name: "" };
+		}
+		// "First von Last": the last word is the last name
+		const words = splitOutsideBraces(name, /^\s+/);
+		const lastName = cleanLatex(words.pop() ?? "");
+		return { creatorType, firstName: cleanLatex(words.join(" ")), lastName, name: "" };
+	});
+}
+
+/**
+ * Paths of the file field: Better BibTeX separates files with ";" and
+ * Zotero's own BibTeX export writes "title:path:mime type" with "\:"
+ * escapes.
+ */
+function parseBibFiles(value: string): string[] {
+	return splitUnescaped(value, ";").map(file => {
+		const parts = splitUnescaped(file, ":");
+		const filePath = parts.length === 3 && /^[\w.+-]+\/[\w.+-]+$/.test(parts[2]!) ? parts[1]! : file;
+		return filePath.replace(/\\([:;\\])/g, "$1").trim();
+	}).filter(file => file);
+}
+
+/**
+ * Read a braced or quoted value, or a bare word (number or macro),
+ * starting at text[start]. Returns the raw value and the index after it.
+ */
+function readBibValue(text: string, start: number): { value: string; end: number } {
+	const open = text[start];
+	if (open === "{" || open === "\"") {
+		// Quoted values may contain braces, braced values balanced braces
+		let depth = open === "{" ? 0 : 1;
+		for (let i = start; i < text.length; i++) {
+			const char = text[i];
+			if (char === "\\") {
+				i++;
+			} else if (char === "{") {
+				depth++;
+			} else if (char === "}") {
+				if (--depth === 0 && open === "{") return { value: text.slice(start + 1, i), end: i + 1 };
+			} else if (char === "\"" && open === "\"" && i > start && depth === 1) {
+				return { value: text.slice(start + 1, i), end: i + 1 };
+			}
+		}
+		return { value: text.slice(start + 1), end: text.length };
+	}
+	const bare = text.slice(start).match(/^[^,}#\s]+/);
+	const word = bare ? bare[0] : "";
+	// Month macros: jan, feb, ...
+	const month = MONTHS.indexOf(word.toLowerCase());
+	return { value: month >= 0 ? String(month + 1) : word, end: start + word.length };
+}
+
+/**
+ * Split a .bib file into entries with their raw field values. @comment,
+ * @preamble and @string blocks are skipped.
+ */
+function readBibEntries(text: string): { type: string; key: string; fields: Record<string, string> }[] {
+	const entries: { type: string; key: string; fields: Record<string, string> }[] = [];
+	const entryStart = /@\s*([A-Za-z]+)\s*[{(]/g;
+	let match: RegExpExecArray | null;
+	while ((match = entryStart.exec(text))) {
+		const type = match[1]!.toLowerCase();
+		let i = entryStart.lastIndex;
+		if (type === "comment" || type === "preamble" || type === "string") {
+			// Skip the block (braces are balanced)
+			let depth = 1;
+			while (i < text.length && depth > 0) {
+				if (text[i] === "{" || text[i] === "(") depth++;
+				else if (text[i] === "}" || text[i] === ")") depth--;
+				i++;
+			}
+			entryStart.lastIndex = i;
+			continue;
+		}
+
+		const keyEnd = text.indexOf(",", i);
+		if (keyEnd < 0) break;
+		const key = text.slice(i, keyEnd).trim();
+		i = keyEnd + 1;
+
+		const fields: Record<string, string> = {};
+		while (i < text.length) {
+			const field = text.slice(i).match(/^[\s,]*([A-Za-z][\w:.+-]*)\s*=\s*/);
+			if (!field) break;
+			const name = field[1]!.toLowerCase();
+			i += field[0].length;
+
+			// Values can be concatenated with #
+			const parts: string[] = [];
+			for (;;) {
+				const { value, end } = readBibValue(text, i);
+				parts.push(value);
+				i = end;
+				const next = text.slice(i).match(/^\s*#\s*/);
+				if (!next) break;
+				i += next[0].length;
+			}
+			fields[name] = parts.join("");
+		}
+		const close = text.slice(i).match(/^[\s,]*[})]/);
+		if (close) i += close[0].length;
+		entryStart.lastIndex = i;
+		entries.push({ type, key, fields });
+	}
+	return entries;
+}
+
+function parseBibFile(text: string): ExportEntry[] {
+	return readBibEntries(text).map(({ type, key, fields: raw }) => {
+		let itemType = BIB_TYPES[type] ?? "document";
+		const subtype = (raw.entrysubtype ?? "").toLowerCase();
+		if (itemType === "journalArticle" && subtype === "magazine") itemType = "magazineArticle";
+		if (itemType === "journalArticle" && subtype === "newspaper") itemType = "newspaperArticle";
+
+		const fields: Record<string, string> = {};
+		const creators: Reference["creators"] = [];
+		for (const [name, value] of Object.entries(raw)) {
+			if (BIB_CREATORS[name]) {
+				creators.push(...parseBibNames(value, BIB_CREATORS[name]));
+			} else if (BIB_FIELDS[name]) {
+				// The first field wins (journaltitle over journal, institution over organization)
+				fields[BIB_FIELDS[name]] ??= BIB_VERBATIM.has(name) ? value.trim() : cleanLatex(value);
+			} else if (!BIB_SKIPPED.has(name)) {
+				// Other fields keep their BibLaTeX name, e.g. {{howpublished}}
+				fields[name] = cleanLatex(value);
+			}
+		}
+		if (fields.pages) fields.pages = fields.pages.replace(/-+/g, "-");
+
+		// Issue for articles, report/patent/... number otherwise
+		const number = raw.number ?? raw.issue;
+		if (number) fields[itemType.endsWith("Article") ? "issue" : "number"] = cleanLatex(number);
+
+		const date = cleanLatex(raw.date ?? "");
+		const dateParts = date.match(/^(\d{4})(?:-(\d{2}))?(?:-(\d{2}))?/);
+		if (dateParts) {
+			fields.date = toZoteroDate(dateParts[1]!, dateParts[2], dateParts[3], date);
+		} else if (raw.year) {
+			const year = cleanLatex(raw.year);
+			const month = raw.month ? parseMonth(cleanLatex(raw.month)) : undefined;
+			const day = raw.day ? cleanLatex(raw.day) : undefined;
+			const original = [day, month ? MONTHS[month - 1] : "", year].filter(Boolean).join(" ");
+			fields.date = toZoteroDate(year, month, day, original);
+		}
+
+		return {
+			citationKey: key,
+			itemKey: "",
+			itemType,
+			fields,
+			creators,
+			tags: splitOutsideBraces(raw.keywords ?? "", /^\s*[,;]\s*/).map(cleanLatex).filter(tag => tag),
+			files: parseBibFiles(raw.file ?? ""),
+		};
+	});
+}
+
+// ── CSL JSON ─────────────────────────────────────────────────────────
+
+// CSL item types and the Zotero item type they come from
+const CSL_TYPES: Record<string, string> = {
+	"article": "preprint",
+	"article-journal": "journalArticle",
+	"article-magazine": "magazineArticle",
+	"article-newspaper": "newspaperArticle",
+	"bill": "bill",
+	"book": "book",
+	"broadcast": "tvBroadcast",
+	"chapter": "bookSection",
+	"dataset": "dataset",
+	"entry-dictionary": "dictionaryEntry",
+	"entry-encyclopedia": "encyclopediaArticle",
+	"graphic": "artwork",
+	"hearing": "hearing",
+	"interview": "interview",
+	"legal_case": "case",
+	"legislation": "statute",
+	"manuscript": "manuscript",
+	"map": "map",
+	"motion_picture": "film",
+	"paper-conference": "conferencePaper",
+	"patent": "patent",
+	"personal_communication": "letter",
+	"post": "forumPost",
+	"post-weblog": "blogPost",
+	"report": "report",
+	"software": "computerProgram",
+	"song": "audioRecording",
+	"speech": "presentation",
+	"standard": "standard",
+	"thesis": "thesis",
+	"webpage": "webpage",
+};
+
+// CSL variables and the Zotero field they come from
+const CSL_VARIABLES: Record<string, string> = {
+	"title": "title",
+	"title-short": "shortTitle",
+	"shortTitle": "shortTitle",
+	"container-title": "publicationTitle",
+	"container-title-short": "journalAbbreviation",
+	"journalAbbreviation": "journalAbbreviation",
+	"collection-title": "series",
+	"collection-number": "seriesNumber",
+	"volume": "volume",
+	"issue": "issue",
+	"number": "number",
+	"page": "pages",
+	"number-of-pages": "numPages",
+	"edition": "edition",
+	"publisher": "publisher",
+	"publisher-place": "place",
+	"event-place": "place",
+	"event-title": "conferenceName",
+	"genre": "type",
+	"medium": "medium",
+	"DOI": "DOI",
+	"ISBN": "ISBN",
+	"ISSN": "ISSN",
+	"URL": "url",
+	"abstract": "abstractNote",
+	"language": "language",
+	"source": "libraryCatalog",
+	"archive": "archive",
+	"archive_location": "archiveLocation",
+	"call-number": "callNumber",
+	"note": "extra",
+};
+
+// CSL name variables and the Zotero creator type they come from
+const CSL_CREATORS: Record<string, string> = {
+	"author": "author",
+	"editor": "editor",
+	"translator": "translator",
+	"container-author": "bookAuthor",
+	"collection-editor": "seriesEditor",
+	"director": "director",
+	"interviewer": "interviewer",
+	"recipient": "recipient",
+	"reviewed-author": "reviewedAuthor",
+	"composer": "composer",
+};
+
+// Variables read into other fields, or identifiers of the item
+const CSL_SKIPPED = new Set(["id", "type", "citation-key", "citationKey", "keyword"]);
+
+interface CslName {
+	family?: string;
+	given?: string;
+	literal?: string;
+	"non-dropping-particle"?: string;
+	suffix?: string;
+}
+
+interface CslDate {
+	"date-parts"?: (string | number)[][];
+	raw?: string;
+	literal?: string;
+}
+
+function cslDate(value: CslDate): string {
+	const [year, month, day] = value["date-parts"]?.[0] ?? [];
+	const original = value.raw ?? value.literal ?? [year, month, day].filter(part => part !== undefined).join("-");
+	if (year === undefined) return original;
+	return toZoteroDate(year, month, day, original);
+}
+
+function parseCslFile(text: string): ExportEntry[] {
+	const parsed = JSON.parse(text) as unknown;
+	const items = Array.isArray(parsed) ? parsed as Record<string, unknown>[] : null;
+	if (!items) throw new Error("Not a CSL JSON file: expected a list of items");
+
+	return items.map(item => {
+		const fields: Record<string, string> = {};
+		const creators: Reference["creators"] = [];
+		for (const [variable, value] of Object.entries(item)) {
+			if (CSL_CREATORS[variable] && Array.isArray(value)) {
+				for (const name of value as CslName[]) {
+					creators.push(name.literal
+						? { creatorType: CSL_CREATORS[variable], firstName: "", lastName: "", name: name.literal }
+						: {
+							creatorType: CSL_CREATORS[variable],
+							firstName: name.given ?? "",
+							lastName: [name["non-dropping-particle"], name.family].filter(Boolean).join(" "),
+							name: "",
+						});
+				}
+			} else if (variable === "issued" || variable === "accessed") {
+				fields[variable === "issued" ? "date" : "accessDate"] = cslDate(value as CslDate);
+			} else if (!CSL_SKIPPED.has(variable) && (typeof value === "string" || typeof value === "number")) {
+				// Other variables keep their CSL name, e.g. {{references}}
+				fields[CSL_VARIABLES[variable] ?? variable] = String(value);
+			}
+		}
+
+		// Zotero's CSL JSON ids end with the item key (".../items/ABCD2345")
+		const id = asString(item.id);
+		const itemKey = id.match(/\/items\/([A-Z0-9]{8})$/)?.[1] ?? "";
+		// Better CSL JSON has the citation key, as "citation-key" or as the id
+		const citationKey = asString(item["citation-key"]) || asString(item.citationKey) || (id.includes("/") ? "" : id);
+
+		return {
+			citationKey,
+			itemKey,
+			itemType: CSL_TYPES[asString(item.type)] ?? "document",
+			fields,
+			creators,
+			tags: typeof item.keyword === "string" ? item.keyword.split(/\s*[,;]\s*/).filter(tag => tag) : [],
+			files: [],
+		};
+	});
+}
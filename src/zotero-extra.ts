@@ -0,0 +1,101 @@
+/**
+ * Extra Field Parser
+ *
+ * Zotero and Better BibTeX store metadata that has no Zotero field as
+ * "key: value" lines in the Extra field:
+ * - CSL variables, e.g. "original-date: 1867" or "container-title: ..."
+ * - identifiers, e.g. "PMID: 123456" or "arXiv: 2101.00001"
+ * - BibTeX fields for Better BibTeX, e.g. "tex.howpublished: ..." or "tex.howpublished= ..."
+ * - the legacy "{:original-date: 1867}" form
+ * Every line is available as {{extra.<key>}}; keys without a Zotero field
+ * also get their own placeholder ({{PMID}}), and CSL variables override the
+ * matching Zotero field when a note is rendered.
+ */
+
+import { Reference } from "./types";
+
+// CSL variables and the Zotero field they override.
+// title and issued are left out: they are used in note titles and notes must keep their path.
+const CSL_FIELDS: Record<string, string> = {
+	"title-short": "shortTitle",
+	"container-title": "publicationTitle",
+	"container-title-short": "journalAbbreviation",
+	"collection-title": "series",
+	"collection-number": "seriesNumber",
+	"publisher": "publisher",
+	"publisher-place": "place",
+	"volume": "volume",
+	"issue": "issue",
+	"page": "pages",
+	"number-of-pages": "numPages",
+	"edition": "edition",
+	"doi": "DOI",
+	"isbn": "ISBN",
+	"issn": "ISSN",
+	"url": "url",
+	"abstract": "abstractNote",
+	"language": "language",
+	"medium": "medium",
+};
+
+const EXTRA_LINE_REG = /^\s*([A-Za-z][\w .-]*?)\s*:\s*(.*\S)\s*$/;
+const TEX_LINE_REG = /^\s*((?:tex|bibtex|biblatex)\.[\w-]+)\s*[:=]\s*(.*\S)\s*$/i;
+const LEGACY_LINE_REG = /^\s*\{:([^:]+):\s*(.*?)\s*\}\s*$/;
+
+/** "Original Date" → "original-date", the form Zotero uses to match CSL variables */
+function normalizeKey(key: string): string {
+	return key.trim().toLowerCase().replace(/\s+/g, "-");
+}
+
+/**
+ * Parse the "key: value" lines of the Extra field. Keys are kept as
+ * written; when a key appears more than once the first value wins.
+ * Lines that are not "key: value" pairs are ignored.
+ */
+export function parseExtraField(extra: string): Record<string, string> {
+	const fields: Record<string, string> = {};
+	for (const line of (extra || "").split(/\r?\n/)) {
+		const m = line.match(TEX_LINE_REG) ?? line.match(LEGACY_LINE_REG) ?? line.match(EXTRA_LINE_REG);
+		if (!m) continue;
+		const key = m[1]!.trim();
+		if (!(key in fields)) fields[key] = m[2]!;
+	}
+	return fields;
+}
+
+/**
+ * Value of an Extra field, matching keys the way Zotero does
+ * ("Citation Key", "citation-key" and "citation key" are the same key).
+ */
+export function getExtraField(fields: Record<string, string>, name: string): string {
+	const target = normalizeKey(name);
+	const key = Object.keys(fields).find(k => normalizeKey(k) === target);
+	return key ? fields[key]! : "";
+}
+
+/**
+ * Let the CSL variables of the Extra field override the matching Zotero
+ * fields and give the other keys (except tex.* fields) their own field,
+ * so that {{PMID}} and {{arXiv}} can be used in templates.
+ */
+export function applyExtraFields(entry: Reference): void {
+	const target = entry as unknown as Record<string, unknown>;
+	for (const [key, value] of Object.entries(entry.extraFields || {})) {
+		const zoteroField = CSL_FIELDS[normalizeKey(key)];
+		if (zoteroField) {
+			target[zoteroField] = value;
+		} else if (!key.includes(".") && !(key in target)) {
+			target[key] = value;
+		}
+	}
+}
+
+/**
+ * Replace the {{extra.<key>}} placeholders.
+ */
+export function replaceExtraFields(note: string, entry: Reference): string {
+	return note.replace(/\{\{extra\.([^}]+)\}\}/g, (match, key: string) => {
+		const value = getExtraField(entry.extraFields || {}, key);
+		return value || match;
+	});
+}
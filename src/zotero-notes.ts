@@ -0,0 +1,148 @@
+/**
+ * Zotero Note Converter
+ *
+ * Converts the HTML of Zotero child notes into Markdown so it can be
+ * inserted into the {{UserNotes}} placeholder. Besides the standard
+ * HTML elements (headings, lists, links, emphasis), Zotero's own markup
+ * for citations and highlights is turned into Markdown equivalents.
+ */
+
+import TurndownService from "turndown";
+import { Reference } from "./types";
+
+type ZoteroNote = Reference["notes"][number];
+
+export interface UserNotesOptions {
+	/** Text inserted between two consecutive notes */
+	separator: string;
+	/** Heading placed before each note, {{noteTitle}} is replaced by the note title. Empty = no heading */
+	headingFormat: string;
+}
+
+// ── Helper: Zotero URI → zotero:// link ──────────────────────────────
+
+/**
+ * Convert a Zotero web URI (as stored in note citations and annotations)
+ * into a zotero://select link that opens the item in the desktop app.
+ *   http://zotero.org/users/local/abc/items/KEY → zotero://select/library/items/KEY
+ *   http://zotero.org/groups/123/items/KEY      → zotero://select/groups/123/items/KEY
+ */
+export function zoteroUriToSelectLink(uri: string): string {
+	const m = uri.match(/\/(users|groups)\/([^/]+)\/items\/([A-Z0-9]+)/);
+	if (!m) return "";
+	if (m[1] === "groups") {
+		return `zotero://select/groups/${m[2]!}/items/${m[3]!}`;
+	}
+	return `zotero://select/library/items/${m[3]!}`;
+}
+
+function parseDataAttribute<T>(el: HTMLElement, name: string): T | null {
+	const raw = el.getAttribute(name);
+	if (!raw) return null;
+	try {
+		return JSON.parse(decodeURIComponent(raw)) as T;
+	} catch {
+		return null;
+	}
+}
+
+// ── Turndown service (singleton) ─────────────────────────────────────
+
+let turndownService: TurndownService | null = null;
+
+function getTurndownService(): TurndownService {
+	if (turndownService) return turndownService;
+
+	const service = new TurndownService({
+		headingStyle: "atx",
+		bulletListMarker: "-",
+		codeBlockStyle: "fenced",
+		emDelimiter: "*",
+		hr: "---",
+	});
+
+	// List items with a single space after the marker (Turndown pads to four columns by default)
+	service.addRule("listItem", {
+		filter: "li",
+		replacement: (content, node) => {
+			content = content
+				.replace(/^\n+/, "")
+				.replace(/\n+$/, "\n")
+				.replace(/\n/gm, "\n    ");
+			let prefix = "- ";
+			const parent = node.parentNode as HTMLElement | null;
+			if (parent?.nodeName === "OL") {
+				const start = Number(parent.getAttribute("start") ?? 1);
+				prefix = `${start + Array.prototype.indexOf.call(parent.children, node)}. `;
+			}
+			const trailing = node.nextSibling && !/\n$/.test(content) ? "\n" : "";
+			return prefix + content + trailing;
+		},
+	});
+
+	// Citations: <span class="citation" data-citation="{...}">(Author, 2020)</span>
+	service.addRule("zoteroCitation", {
+		filter: (node) => node.nodeName === "SPAN" && node.classList.contains("citation"),
+		replacement: (content, node) => {
+			const citation = parseDataAttribute<{ citationItems?: { uris?: string[] }[] }>(
+				node,
+				"data-citation"
+			);
+			const uri = citation?.citationItems?.[0]?.uris?.[0] ?? "";
+			const link = zoteroUriToSelectLink(uri);
+			return link ? `[${content}](${link})` : content;
+		},
+	});
+
+	// Highlights copied from the PDF reader: <span class="highlight" data-annotation="{...}">"text"</span>
+	service.addRule("zoteroHighlight", {
+		filter: (node) => node.nodeName === "SPAN" && node.classList.contains("highlight"),
+		replacement: (content) => (content.trim() ? `==${content.trim()}==` : ""),
+	});
+
+	// Image annotations reference attachments that are not available in the vault
+	service.addRule("zoteroImage", {
+		filter: (node) => node.nodeName === "IMG" && !node.getAttribute("src"),
+		replacement: () => "",
+	});
+
+	turndownService = service;
+	return service;
+}
+
+// ── Public API ───────────────────────────────────────────────────────
+
+/**
+ * Convert the HTML of a single Zotero note into Markdown.
+ */
+export function convertNoteToMarkdown(html: string): string {
+	if (!html.trim()) return "";
+	return getTurndownService().turndown(html).trim();
+}
+
+/**
+ * Build the content of {{UserNotes}} from the child notes of an item.
+ * Returns an empty string when the item has no (non-empty) notes.
+ */
+export function createUserNotes(notes: ZoteroNote[], options: UserNotesOptions): string {
+	const parts: string[] = [];
+	for (const note of notes) {
+		if (!note) continue;
+		let markdown = convertNoteToMarkdown(note.note);
+		if (!markdown) continue;
+
+		const title = (note.title || "").trim();
+		if (options.headingFormat && title) {
+			// Zotero derives the note title from its first line: drop it to avoid repeating the heading
+			const lines = markdown.split("\n");
+			const firstLine = (lines[0] ?? "").replace(/^#+\s*/, "").replace(/[*_]/g, "").trim();
+			if (firstLine === title) {
+				markdown = lines.slice(1).join("\n").trim();
+			}
+			const heading = options.headingFormat.replace("{{noteTitle}}", title);
+			markdown = markdown ? heading + "\n" + markdown : heading;
+		}
+		parts.push(markdown);
+	}
+	return parts.join(options.separator);
+}
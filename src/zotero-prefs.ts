@@ -0,0 +1,148 @@
+/**
+ * Zotero Profile Preferences Reader
+ *
+ * Reads Zotero's profile preferences (prefs.js) to find settings that are
+ * not stored in zotero.sqlite, such as the Linked Attachment Base Directory
+ * or a custom data directory.
+ * Profiles are listed in profiles.ini inside the Zotero profile root:
+ * - Windows: %APPDATA%\Zotero\Zotero
+ * - macOS:   ~/Library/Application Support/Zotero
+ * - Linux:   ~/.zotero/zotero
+ */
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+// ── Profile discovery ────────────────────────────────────────────────
+
+/**
+ * Directory holding profiles.ini for the current platform.
+ */
+export function getProfileRootDir(): string {
+	const home = os.homedir();
+	switch (os.platform()) {
+		case "win32":
+			return path.join(home, "AppData", "Roaming", "Zotero", "Zotero");
+		case "darwin":
+			return path.join(home, "Library", "Application Support", "Zotero");
+		default:
+			return path.join(home, ".zotero", "zotero");
+	}
+}
+
+/**
+ * Parse profiles.ini and return the absolute path of every profile directory.
+ */
+export function findProfileDirs(rootDir: string = getProfileRootDir()): string[] {
+	const iniPath = path.join(rootDir, "profiles.ini");
+	if (!fs.existsSync(iniPath)) return [];
+
+	const dirs: string[] = [];
+	let current: Record<string, string> | null = null;
+	const flush = () => {
+		if (current?.Path) {
+			dirs.push(current.IsRelative === "0" ? current.Path : path.join(rootDir, current.Path));
+		}
+	};
+
+	for (const rawLine of fs.readFileSync(iniPath, "utf-8").split(/\r?\n/)) {
+		const line = rawLine.trim();
+		if (line.startsWith("[")) {
+			flush();
+			current = line.startsWith("[Profile") ? {} : null;
+		} else if (current) {
+			const eq = line.indexOf("=");
+			if (eq > 0) current[line.slice(0, eq)] = line.slice(eq + 1);
+		}
+	}
+	flush();
+	return dirs;
+}
+
+// ── prefs.js ─────────────────────────────────────────────────────────
+
+/**
+ * Read all user_pref(...) entries of a profile's prefs.js.
+ */
+export function readPrefs(profileDir: string): Record<string, string | number | boolean> {
+	const prefsPath = path.join(profileDir, "prefs.js");
+	const prefs: Record<string, string | number | boolean> = {};
+	if (!fs.existsSync(prefsPath)) return prefs;
+
+	const prefReg = /^user_pref\("([^"]+)",\s*(.+)\);\s*$/;
+	for (const line of fs.readFileSync(prefsPath, "utf-8").split(/\r?\n/)) {
+		const m = line.match(prefReg);
+		if (!m) continue;
+		try {
+			prefs[m[1]!] = JSON.parse(m[2]!) as string | number | boolean;
+		} catch {
+			// Ignore values that are not valid JSON literals
+		}
+	}
+	return prefs;
+}
+
+/**
+ * Preferences of the profile that uses the given Zotero data directory.
+ * Falls back to the first profile when no profile points to it explicitly.
+ */
+export function readPrefsForDataDir(dataDir: string): Record<string, string | number | boolean> {
+	const profiles = findProfileDirs().map(readPrefs);
+	const target = path.resolve(dataDir);
+	const match = profiles.find((prefs) => {
+		const prefDataDir = prefs["extensions.zotero.dataDir"];
+		return prefs["extensions.zotero.useDataDir"] === true &&
+			typeof prefDataDir === "string" &&
+			path.resolve(prefDataDir) === target;
+	});
+	return match ?? profiles[0] ?? {};
+}
+
+// ── Data directory ───────────────────────────────────────────────────
+
+/**
+ * Find the zotero.sqlite files of this computer: the custom data directory
+ * of each profile (Settings → Advanced → Files and Folders), the default
+ * ~/Zotero, and the profile's own zotero folder used by Zotero 4.
+ * Returns the existing files only, without duplicates.
+ */
+export function findZoteroDatabases(): string[] {
+	const dataDirs: string[] = [];
+	try {
+		for (const profileDir of findProfileDirs()) {
+			const prefs = readPrefs(profileDir);
+			const dataDir = prefs["extensions.zotero.dataDir"];
+			if (prefs["extensions.zotero.useDataDir"] === true && typeof dataDir === "string") {
+				dataDirs.push(dataDir);
+			}
+			dataDirs.push(path.join(profileDir, "zotero"));
+		}
+	} catch (e) {
+		console.warn("Could not read Zotero profiles:", e);
+	}
+	dataDirs.push(path.join(os.homedir(), "Zotero"));
+
+	const databases = new Set<string>();
+	for (const dataDir of dataDirs) {
+		const dbPath = path.resolve(dataDir, "zotero.sqlite");
+		if (fs.existsSync(dbPath)) databases.add(dbPath);
+	}
+	return [...databases];
+}
+
+// ── Linked attachments ───────────────────────────────────────────────
+
+/**
+ * Linked Attachment Base Directory configured in Zotero
+ * (Settings → Advanced → Files and Folders). Returns "" when not set.
+ */
+export function getBaseAttachmentPath(dataDir: string): string {
+	try {
+		const value = readPrefsForDataDir(dataDir)["extensions.zotero.baseAttachmentPath"];
+		return typeof value === "string" ? value : "";
+	} catch (e) {
+		console.warn("Could not read Zotero preferences:", e);
+		return "";
+	}
+}
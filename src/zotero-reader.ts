@@ -0,0 +1,1159 @@
+/**
+ * Zotero Database Queries
+ *
+ * Builds Reference objects, collections and saved searches from an
+ * in-memory copy of zotero.sqlite. Nothing here touches the file system:
+ * zotero-db.ts reads the files and runs these queries in a worker
+ * (zotero-worker.ts) so that large libraries do not freeze Obsidian.
+ */
+
+import { Reference, Collection, Annotation, Library, SavedSearch } from "./types";
+import { applyFallbackCitationKeys } from "./zotero-citekeys";
+import { ItemSchema, applyBaseFields, getItemTypeLabel } from "./zotero-schema";
+import { getExtraField, parseExtraField } from "./zotero-extra";
+
+// ── Helper: safely convert unknown to string ─────────────────────────
+
+export function asString(value: unknown): string {
+	if (typeof value === 'string') return value;
+	if (typeof value === 'number') return String(value);
+	return '';
+}
+
+// ── Minimal sql.js type definitions ──────────────────────────────────
+
+type SqlJsValue = string | number | Uint8Array | null;
+
+export interface SqlJsDatabase {
+	exec(sql: string): { columns: string[]; values: SqlJsValue[][] }[];
+	close(): void;
+}
+
+export interface SqlJsStatic {
+	Database: new (data?: ArrayLike<number>) => SqlJsDatabase;
+}
+// ── sql.js loading ──────────────────────────────────────────────────
+
+type InitSqlJsFn = (config: { wasmBinary: ArrayBuffer }) => Promise<SqlJsStatic>;
+
+/**
+ * 执行 sql-wasm.js 的代码并用 wasm 二进制初始化 sql.js
+ * 主线程与读取 worker 共用：两者都由调用方提供文件内容
+ */
+export async function loadSqlJs(sqlJsSource: string, wasmBinary: ArrayBuffer): Promise<SqlJsStatic> {
+	// 关键：暂时屏蔽 module/exports，让 UMD 格式挂载 initSqlJs 到全局
+	// eslint-disable-next-line @typescript-eslint/no-implied-eval -- Loading sql-wasm.js UMD module requires dynamic code evaluation
+	const loader = new Function('globalThis', 'window', 'global', 'module', 'exports', `
+		${sqlJsSource}
+		return typeof initSqlJs !== 'undefined' ? initSqlJs : undefined;
+	`) as (...args: unknown[]) => InitSqlJsFn | undefined;
+
+	const initSqlJs = loader(globalThis, globalThis, globalThis, undefined, undefined);
+
+	if (!initSqlJs) {
+		throw new Error("sql-wasm.js 加载失败，未找到 initSqlJs 函数");
+	}
+
+	return await initSqlJs({ wasmBinary });
+}
+
+// ── Helper: run a query and return rows as objects ───────────────────
+
+export function query(db: SqlJsDatabase, sql: string): Record<string, unknown>[] {
+	const results = db.exec(sql);
+	if (!results.length) return [];
+	const result = results[0];
+	if (!result) return [];
+	const { columns, values } = result;
+	return values.map((row: SqlJsValue[]) => {
+		const obj: Record<string, unknown> = {};
+		columns.forEach((col: string, i: number) => (obj[col] = row[i]));
+		return obj;
+	});
+}
+
+// ── Public data type ─────────────────────────────────────────────────
+
+export interface ZoteroData {
+	items: Reference[];
+	collections: Record<string, Collection>;
+	libraries: Record<number, Library>;
+	savedSearches: Record<string, SavedSearch>;
+	/** Identities of the regular items in the Zotero trash */
+	trashedItemKeys: string[];
+	/** Identities of all regular items that are not in the trash, including those skipped for lacking a citation key */
+	liveItemKeys: string[];
+	/** Number of items without a citation key (generated or skipped) */
+	missingCitationKeyCount: number;
+	/** Creator types of the schema, so that templates can use every role */
+	creatorTypes: string[];
+	/** Where this read left off, for the next incremental read */
+	watermark: ReadWatermark;
+}
+
+// ── Incremental Update Types ─────────────────────────────────────────
+
+/**
+ * State of the database at the end of a read. The next incremental read
+ * picks up the items changed after it.
+ */
+export interface ReadWatermark {
+	/** Newest clientDateModified ("YYYY-MM-DD HH:MM:SS", UTC) */
+	clientDateModified: string;
+	/** Highest sync version of the items of each library */
+	libraryVersions: Record<number, number>;
+	/** Highest itemID and number of items up to it, to detect erased items */
+	maxItemID: number;
+	itemCount: number;
+}
+
+export interface IncrementalUpdate {
+	items: Reference[];
+	updatedItemKeys: string[];
+	collections: Record<string, Collection>;
+	libraries: Record<number, Library>;
+	savedSearches: Record<string, SavedSearch>;
+	/** Identities of the regular items in the Zotero trash */
+	trashedItemKeys: string[];
+	/** Identities of all regular items that are not in the trash */
+	liveItemKeys: string[];
+	creatorTypes: string[];
+	watermark: ReadWatermark;
+}
+
+// ── Utility: library links ───────────────────────────────────────────
+
+/**
+ * SQL condition on items aliased as "i" that leaves out the items of RSS
+ * feeds (Zotero 5+ stores them in the items table under the feed's library)
+ * unless they are requested.
+ */
+function feedItemsCondition(includeFeedItems: boolean | undefined): string {
+	return includeFeedItems ? "" : "AND i.libraryID NOT IN (SELECT libraryID FROM libraries WHERE type = 'feed')";
+}
+
+/**
+ * Path segment used by zotero:// links for a library:
+ * "library" for My Library, "groups/<groupID>" for group libraries.
+ */
+export function zoteroLibraryPath(groupID: number | undefined): string {
+	return groupID ? `groups/${groupID}` : "library";
+}
+
+/**
+ * Unique identity of an item across libraries ("<libraryID>/<itemKey>").
+ * Item keys are only unique within a library.
+ */
+export function getItemIdentity(item: { libraryID?: number; itemKey: string }): string {
+	return `${item.libraryID ?? 1}/${item.itemKey}`;
+}
+
+// ── Reading ──────────────────────────────────────────────────────────
+
+/** Steps of a full read, reported while it runs; "done" once it has finished or failed */
+export type ReadStage = "opening" | "items" | "collections" | "done";
+
+/**
+ * What a read needs besides the database: everything that comes from
+ * files or settings is resolved by the caller.
+ */
+export interface ReadRequest {
+	/** zotero.sqlite with its write-ahead log applied */
+	db: Uint8Array;
+	/** better-bibtex.sqlite, or null when BetterBibTeX is not installed */
+	bbtDb: Uint8Array | null;
+	/** Citation keys already known, used instead of bbtDb when not empty */
+	bbtCiteKeys?: Record<number, string>;
+	/** Set for an incremental read: the watermark of the previous read */
+	since?: ReadWatermark;
+	fallbackCitationKeyFormat?: string;
+	includeFeedItems?: boolean;
+}
+
+/**
+ * Read every item of the database. Attachment paths are left as Zotero
+ * stores them ("storage:..." or "attachments:..."): the caller resolves
+ * them against the data directory. The caller reports "opening", while
+ * it reads the files.
+ */
+export function readAll(SQL: SqlJsStatic, request: ReadRequest, onProgress: (stage: ReadStage) => void = () => {}): ZoteroData {
+	const db = new SQL.Database(request.db);
+	const bbtCiteKeys = readBBTCiteKeys(SQL, request);
+
+	try {
+		onProgress("items");
+		const watermark = extractWatermark(db, request.includeFeedItems);
+		const libraries = extractLibraries(db);
+		const { items, missingCitationKeyCount } = applyFallbackCitationKeys(
+			extractItems(db, bbtCiteKeys, libraries, request.includeFeedItems),
+			request.fallbackCitationKeyFormat
+		);
+
+		onProgress("collections");
+		const collections = extractCollections(db);
+		const savedSearches = extractSavedSearches(db);
+		const trashedItemKeys = extractTrashedItemKeys(db);
+		const liveItemKeys = extractLiveItemKeys(db, request.includeFeedItems);
+		const creatorTypes = extractCreatorTypes(db);
+		return { items, collections, libraries, savedSearches, trashedItemKeys, liveItemKeys, missingCitationKeyCount, creatorTypes, watermark };
+	} finally {
+		db.close();
+	}
+}
+
+/**
+ * Read only the items changed since request.since. Returns null when the
+ * changes cannot be applied item by item (see readZoteroDatabaseIncremental).
+ */
+export function readChanges(SQL: SqlJsStatic, request: ReadRequest & { since: ReadWatermark }): IncrementalUpdate | null {
+	const { since } = request;
+	const db = new SQL.Database(request.db);
+	const bbtCiteKeys = readBBTCiteKeys(SQL, request);
+
+	try {
+		// Erased items leave nothing to compare with: their parents are unknown
+		if (hasErasedItems(db, since, request.includeFeedItems)) return null;
+
+		const watermark = extractWatermark(db, request.includeFeedItems);
+		const libraries = extractLibraries(db);
+		const changedItemIds = extractChangedItemIds(db, since);
+		let items = changedItemIds.length > 0
+			? extractItems(db, bbtCiteKeys, libraries, request.includeFeedItems, changedItemIds.join(","))
+			: [];
+
+		// Generated keys are disambiguated against the whole library: let the caller do a full read
+		const keylessItemKeys = new Set(items.filter(item => !item.citationKey).map(getItemIdentity));
+		if (keylessItemKeys.size > 0) {
+			if (request.fallbackCitationKeyFormat) return null;
+			items = items.filter(item => item.citationKey);
+		}
+
+		// Always return full collections and saved searches on incremental update
+		const collections = extractCollections(db);
+		const savedSearches = extractSavedSearches(db);
+
+		// Trashed and live items, so that removed items can be pruned from the cache.
+		// Items that lost their citation key are skipped by a full read, so they are not live either.
+		const trashedItemKeys = extractTrashedItemKeys(db);
+		const liveItemKeys = extractLiveItemKeys(db, request.includeFeedItems)
+			.filter(identity => !keylessItemKeys.has(identity));
+
+		return {
+			items,
+			updatedItemKeys: items.map(getItemIdentity),
+			collections,
+			libraries,
+			savedSearches,
+			trashedItemKeys,
+			liveItemKeys,
+			creatorTypes: extractCreatorTypes(db),
+			watermark,
+		};
+	} finally {
+		db.close();
+	}
+}
+
+// ── Change detection ────────────────────────────────────────────────
+
+/**
+ * Read where the database stands: newest clientDateModified, highest
+ * version per library and the number of items.
+ */
+function extractWatermark(db: SqlJsDatabase, includeFeedItems = false): ReadWatermark {
+	const rows = query(
+		db,
+		`SELECT i.libraryID, MAX(i.version) AS version, MAX(i.clientDateModified) AS clientDateModified,
+		        MAX(i.itemID) AS maxItemID, COUNT(*) AS itemCount
+		 FROM items i
+		 WHERE 1 ${feedItemsCondition(includeFeedItems)}
+		 GROUP BY i.libraryID`
+	);
+	const watermark: ReadWatermark = { clientDateModified: "", libraryVersions: {}, maxItemID: 0, itemCount: 0 };
+	for (const row of rows) {
+		const clientDateModified = asString(row.clientDateModified);
+		if (clientDateModified > watermark.clientDateModified) watermark.clientDateModified = clientDateModified;
+		watermark.libraryVersions[row.libraryID as number] = (row.version as number) || 0;
+		watermark.maxItemID = Math.max(watermark.maxItemID, (row.maxItemID as number) || 0);
+		watermark.itemCount += (row.itemCount as number) || 0;
+	}
+	return watermark;
+}
+
+/**
+ * Whether items (regular or child items) were erased since the watermark.
+ * New items get higher IDs, so fewer items up to the watermark's highest
+ * ID means some of them are gone.
+ */
+function hasErasedItems(db: SqlJsDatabase, since: ReadWatermark, includeFeedItems = false): boolean {
+	const rows = query(
+		db,
+		`SELECT COUNT(*) AS itemCount
+		 FROM items i
+		 WHERE i.itemID <= ${since.maxItemID}
+		   ${feedItemsCondition(includeFeedItems)}`
+	);
+	return ((rows[0]?.itemCount as number) || 0) < since.itemCount;
+}
+
+/**
+ * IDs of the items changed since the watermark, with child items
+ * (attachments, notes, annotations) replaced by their parent item.
+ * Trashed and feed items are left to extractItems to filter out.
+ */
+function extractChangedItemIds(db: SqlJsDatabase, since: ReadWatermark): number[] {
+	// Libraries missing from the watermark (e.g. a newly joined group) are read in full
+	const versionCases = Object.entries(since.libraryVersions)
+		.map(([libraryID, version]) => `WHEN ${Number(libraryID)} THEN ${Number(version)}`)
+		.join(" ");
+	const sinceVersion = versionCases ? `CASE i.libraryID ${versionCases} ELSE -1 END` : "-1";
+	const sinceDate = since.clientDateModified.replace(/'/g, "");
+	const changed = `(i.clientDateModified >= '${sinceDate}' OR i.version > ${sinceVersion})`;
+
+	const rows = query(
+		db,
+		`SELECT i.itemID FROM items i WHERE ${changed}
+		 UNION
+		 SELECT ia.parentItemID FROM itemAttachments ia JOIN items i ON ia.itemID = i.itemID
+		 WHERE ia.parentItemID IS NOT NULL AND ${changed}
+		 UNION
+		 SELECT n.parentItemID FROM itemNotes n JOIN items i ON n.itemID = i.itemID
+		 WHERE n.parentItemID IS NOT NULL AND ${changed}`
+	);
+
+	// itemAnnotations only exists in Zotero 6 and later
+	try {
+		rows.push(...query(
+			db,
+			`SELECT att.parentItemID AS itemID
+			 FROM itemAnnotations ia
+			 JOIN items i             ON ia.itemID = i.itemID
+			 JOIN itemAttachments att ON ia.parentItemID = att.itemID
+			 WHERE att.parentItemID IS NOT NULL AND ${changed}`
+		));
+	} catch {
+		// No annotations to check
+	}
+
+	const itemIds = new Set(rows.map(row => row.itemID as number));
+	for (const itemID of Object.keys(extractRetractions(db))) itemIds.add(Number(itemID));
+	return [...itemIds];
+}
+
+// ── BetterBibTeX citation keys ───────────────────────────────────────
+
+/**
+ * Citation keys of the request: the known keys, or those of
+ * better-bibtex.sqlite. Empty when BetterBibTeX is not installed.
+ */
+function readBBTCiteKeys(SQL: SqlJsStatic, request: ReadRequest): Record<number, string> {
+	if (request.bbtCiteKeys && Object.keys(request.bbtCiteKeys).length > 0) return request.bbtCiteKeys;
+	if (!request.bbtDb) return {};
+	try {
+		const bbtDb = new SQL.Database(request.bbtDb);
+		const keys = extractBBTCiteKeys(bbtDb);
+		bbtDb.close();
+		return keys;
+	} catch (e) {
+		 
+		console.warn("Could not read BetterBibTeX database:", e);
+		return {};
+	}
+}
+
+function extractBBTCiteKeys(db: SqlJsDatabase): Record<number, string> {
+	const keys: Record<number, string> = {};
+
+	// BBT stores data in a key-value table named "better-bibtex"
+	// with name='better-bibtex.citekey' and value = JSON blob
+	try {
+		const rows = query(
+			db,
+			`SELECT * FROM "better-bibtex" WHERE name = 'better-bibtex.citekey'`
+		);
+		if (rows.length > 0 && rows[0]?.value) {
+			const parsed = JSON.parse(asString(rows[0]?.value)) as { data?: Array<{ itemID?: number; citekey?: string }> };
+			if (Array.isArray(parsed?.data)) {
+				for (const entry of parsed.data) {
+					if (entry.itemID && entry.citekey) {
+						keys[entry.itemID] = entry.citekey;
+					}
+				}
+			}
+		}
+	} catch {
+		// Try alternative BBT schema (older versions)
+		try {
+			const rows = query(
+				db,
+				`SELECT itemID, citationKey FROM citationkey`
+			);
+			for (const row of rows) {
+				keys[row.itemID as number] = asString(row.citationKey);
+			}
+		} catch {
+			 
+			console.warn("Could not extract BBT citation keys from any known schema");
+		}
+	}
+	return keys;
+}
+
+// ── Item extraction ──────────────────────────────────────────────────
+
+function extractItems(
+	db: SqlJsDatabase,
+	bbtCiteKeys: Record<number, string>,
+	libraries: Record<number, Library>,
+	includeFeedItems = false,
+	itemIds?: string
+): Reference[] {
+	// Restrict every query to the given items (and their children) when set
+	const onlyItems = (column: string) => itemIds ? `AND ${column} IN (${itemIds})` : "";
+
+	// 1. All regular items (skip attachments, notes, annotations, deleted)
+	const items = query(
+		db,
+		`SELECT i.itemID, it.typeName AS itemType, i.key AS itemKey,
+		        i.dateAdded, i.dateModified, i.libraryID
+		 FROM items i
+		 JOIN itemTypes it ON i.itemTypeID = it.itemTypeID
+		 WHERE it.typeName NOT IN ('attachment', 'note', 'annotation')
+		   AND i.itemID NOT IN (SELECT itemID FROM deletedItems)
+		   ${feedItemsCondition(includeFeedItems)}
+		   ${onlyItems("i.itemID")}`
+	);
+
+	// 2. All field data (itemData + fields + itemDataValues)
+	const fieldRows = query(
+		db,
+		`SELECT id.itemID, f.fieldName, idv.value
+		 FROM itemData id
+		 JOIN fields f      ON id.fieldID  = f.fieldID
+		 JOIN itemDataValues idv ON id.valueID = idv.valueID
+		 WHERE 1 ${onlyItems("id.itemID")}`
+	);
+	const fieldsByItem: Record<number, Record<string, string>> = {};
+	for (const f of fieldRows) {
+		if (!fieldsByItem[f.itemID as number]) fieldsByItem[f.itemID as number] = {};
+		fieldsByItem[f.itemID as number]![f.fieldName as string] = f.value as string;
+	}
+
+	// 3. Creators
+	const creatorRows = query(
+		db,
+		`SELECT ic.itemID, c.firstName, c.lastName, c.fieldMode,
+				ct.creatorType, ic.orderIndex
+		 FROM itemCreators ic
+		 JOIN creators    c  ON ic.creatorID     = c.creatorID
+		 JOIN creatorTypes ct ON ic.creatorTypeID = ct.creatorTypeID
+		 WHERE 1 ${onlyItems("ic.itemID")}
+		 ORDER BY ic.itemID, ic.orderIndex`
+	);
+	const creatorsByItem: Record<number, Record<string, string>[]> = {};
+	for (const c of creatorRows) {
+		const cItemID = c.itemID as number;
+		if (!creatorsByItem[cItemID]) creatorsByItem[cItemID] = [];
+		if (c.fieldMode === 1) {
+			// Institutional / single-field creator
+			creatorsByItem[cItemID].push({
+				creatorType: asString(c.creatorType),
+				firstName: "",
+				lastName: "",
+				name: asString(c.lastName),
+			});
+		} else {
+			// Personal creator (firstName + lastName)
+			creatorsByItem[cItemID].push({
+				creatorType: asString(c.creatorType),
+				firstName: asString(c.firstName),
+				lastName: asString(c.lastName),
+				name: "",
+			});
+		}
+	}
+
+	// 4. Tags
+	const tagRows = query(
+		db,
+		`SELECT it.itemID, t.name AS tag, it.type
+		 FROM itemTags it
+		 JOIN tags t ON it.tagID = t.tagID
+		 WHERE 1 ${onlyItems("it.itemID")}`
+	);
+	const tagsByItem: Record<number, Reference["tags"]> = {};
+	for (const t of tagRows) {
+		const tItemID = t.itemID as number;
+		if (!tagsByItem[tItemID]) tagsByItem[tItemID] = [];
+		tagsByItem[tItemID].push({ tag: asString(t.tag), type: (t.type as number) || 0 });
+	}
+
+	// 5. Attachments (paths are resolved by the caller, see resolveAttachmentPaths)
+	const attachRows = query(
+		db,
+		`SELECT ia.parentItemID, ia.path, ia.contentType,
+		        i.key AS itemKey, i.dateAdded, i.dateModified, i.libraryID,
+		        (SELECT idv2.value
+		         FROM itemData id2
+		         JOIN fields f2          ON id2.fieldID = f2.fieldID AND f2.fieldName = 'title'
+		         JOIN itemDataValues idv2 ON id2.valueID = idv2.valueID
+		         WHERE id2.itemID = ia.itemID) AS title
+		 FROM itemAttachments ia
+		 JOIN items i ON ia.itemID = i.itemID
+		 WHERE ia.parentItemID IS NOT NULL
+		   AND i.itemID NOT IN (SELECT itemID FROM deletedItems)
+		   ${onlyItems("ia.parentItemID")}`
+	);
+	const attachmentsByItem: Record<number, Record<string, unknown>[]> = {};
+	for (const a of attachRows) {
+		const parentItemID = a.parentItemID as number;
+		if (!attachmentsByItem[parentItemID])
+			attachmentsByItem[parentItemID] = [];
+
+		const filePath = asString(a.path);
+		const itemKey = asString(a.itemKey);
+		// Untitled attachments are named after their file
+		const title = asString(a.title) || (filePath.replace(/^(storage|attachments):/, "").split(/[\\/]/).pop() ?? "");
+
+		attachmentsByItem[parentItemID].push({
+			dateAdded: a.dateAdded,
+			dateModified: a.dateModified,
+			itemType: "attachment",
+			key: itemKey,
+			contentType: asString(a.contentType),
+			path: filePath,
+			relations: [],
+			select: `zotero://select/${zoteroLibraryPath(libraries[a.libraryID as number]?.groupID)}/items/${itemKey}`,
+			tags: [],
+			title: title,
+			uri: "",
+		});
+	}
+
+	// 6. Notes
+	const noteRows = query(
+		db,
+		`SELECT n.parentItemID, n.note, n.title,
+		        i.key, i.dateAdded, i.dateModified
+		 FROM itemNotes n
+		 JOIN items i ON n.itemID = i.itemID
+		 WHERE n.parentItemID IS NOT NULL
+		   AND i.itemID NOT IN (SELECT itemID FROM deletedItems)
+		   ${onlyItems("n.parentItemID")}`
+	);
+	const notesByItem: Record<number, Record<string, unknown>[]> = {};
+	for (const n of noteRows) {
+		const parentItemID = n.parentItemID as number;
+		if (!notesByItem[parentItemID]) notesByItem[parentItemID] = [];
+		notesByItem[parentItemID].push({
+			dateAdded: n.dateAdded,
+			dateModified: n.dateModified,
+			itemType: "note",
+			key: n.key,
+			note: asString(n.note),
+			title: asString(n.title),
+			parentItem: "",
+			relations: [],
+			tags: [],
+			uri: "",
+			version: 0,
+		});
+	}
+
+	// 7. PDF annotations (Zotero 6+), grouped by the parent of their attachment
+	const annotationsByItem = extractAnnotations(db, libraries, itemIds);
+
+	// 8. Related items (Zotero "Related" links)
+	const relatedByItem = extractRelations(db, libraries, itemIds);
+
+	// 9. Coloured and emoji tags, item type labels and base fields
+	const tagColors = extractTagColors(db);
+	const schema = extractSchema(db);
+
+	// 10. Retracted items (Retraction Watch)
+	const retractions = extractRetractions(db);
+
+	// 11. Build Reference objects
+	const references: Reference[] = [];
+
+	for (const item of items) {
+		const itemID = item.itemID as number;
+		const itemKey = asString(item.itemKey);
+		const itemType = asString(item.itemType);
+		const fields = applyBaseFields(schema, itemType, fieldsByItem[itemID] || {});
+		const libraryID = item.libraryID as number;
+		const library = libraries[libraryID];
+
+		// ── Determine citation key ──
+		const extraFields = parseExtraField(fields.extra || "");
+		let citationKey = "";
+		// Priority: BBT database → citationKey field → extra field
+		if (bbtCiteKeys[itemID]) {
+			citationKey = bbtCiteKeys[itemID]!;
+		} else if (fields.citationKey) {
+			citationKey = fields.citationKey;
+		} else {
+			citationKey = getExtraField(extraFields, "Citation Key");
+		}
+
+		// Items without a citation key are kept with an empty key:
+		// readAll generates one or skips them
+
+		const ref: Record<string, unknown> = {
+			// ── identifiers ──
+			itemID: itemID,
+			itemKey: itemKey,
+			citationKey: citationKey,
+			citeKey: citationKey,
+			citationKeyGenerated: false,
+			itemType: itemType,
+			itemTypeLabel: getItemTypeLabel(schema, itemType),
+
+			// ── library ──
+			libraryID: libraryID,
+			groupID: library?.groupID ?? 0,
+			libraryName: library?.name ?? "",
+			sourceName: "",
+			feedName: library?.type === "feed" ? library.name : "",
+
+			// ── basic metadata ──
+			// Base fields (title, date, publicationTitle, publisher, ...) include
+			// their type-specific variants (nameOfAct, dateEnacted, bookTitle, university, ...)
+			title: fields.title || "",
+			date: fields.date || "",
+			dateAdded: asString(item.dateAdded),
+			dateModified: asString(item.dateModified),
+			publicationTitle: fields.publicationTitle || fields.journalAbbreviation || "",
+			volume: fields.volume || "",
+			issue: fields.issue || "",
+			pages: fields.pages || "",
+
+			// ── relationships ──
+			creators: creatorsByItem[itemID] || [],
+			tags: tagsByItem[itemID] || [],
+			coloredTags: getColoredTags(tagsByItem[itemID] || [], tagColors[libraryID]),
+			attachments: attachmentsByItem[itemID] || [],
+			notes: notesByItem[itemID] || [],
+			annotations: annotationsByItem[itemID] || [],
+			relatedItems: relatedByItem[itemID] || [],
+			extraFields: extraFields,
+			isRetracted: itemID in retractions,
+			retractionDate: retractions[itemID] ?? "",
+
+			// ── Zotero links ──
+			select: `zotero://select/${zoteroLibraryPath(library?.groupID)}/items/${itemKey}`,
+		};
+
+		references.push(buildReference(ref, fields));
+	}
+
+	return references;
+}
+
+/**
+ * Complete the data read from a source into a Reference: the fields set
+ * later by parseMetadata start empty, and the remaining Zotero fields are
+ * added so that they are available for template replacement
+ * (e.g. {{abstractNote}}, {{DOI}}, etc.).
+ */
+export function buildReference(data: Record<string, unknown>, fields: Record<string, string>): Reference {
+	const ref: Record<string, unknown> = {
+		...data,
+
+		// ── Fields populated later by parseMetadata ──
+		authorKey: "",
+		authorKeyInitials: "",
+		authorKeyFullName: "",
+		id: data.itemID,
+		year: "",
+		month: "",
+		day: "",
+		dateISO: "",
+		citationInLine: "",
+		citationInLineInitials: "",
+		citationInLineFullName: "",
+		citationShort: "",
+		citationFull: "",
+		inlineReference: "",
+		file: "",
+		filePath: "",
+		zoteroReaderLink: "",
+		pdfEmbed: "",
+		pdfLink: "",
+		localLibrary: "",
+		localLibraryLink: "",
+		zoteroTags: [],
+	};
+
+	for (const [key, value] of Object.entries(fields)) {
+		if (!(key in ref)) {
+			ref[key] = value;
+		}
+	}
+
+	return ref as unknown as Reference;
+}
+
+// ── Library extraction ───────────────────────────────────────────────
+
+/**
+ * Read My Library, the group libraries and the RSS feeds. Group and feed
+ * names come from the groups and feeds tables; the personal library is
+ * always called "My Library".
+ */
+function extractLibraries(db: SqlJsDatabase): Record<number, Library> {
+	const rows = query(
+		db,
+		`SELECT l.libraryID, l.type, g.groupID, COALESCE(g.name, f.name) AS name
+		 FROM libraries l
+		 LEFT JOIN groups g ON g.libraryID = l.libraryID
+		 LEFT JOIN feeds f  ON f.libraryID = l.libraryID`
+	);
+
+	const libraries: Record<number, Library> = {};
+	for (const row of rows) {
+		const libraryID = row.libraryID as number;
+		const type = asString(row.type) as Library["type"];
+		libraries[libraryID] = {
+			libraryID,
+			type,
+			groupID: type === "group" ? (row.groupID as number) : 0,
+			name: type === "user" ? "My Library" : asString(row.name),
+		};
+	}
+	return libraries;
+}
+
+// ── Schema extraction ────────────────────────────────────────────────
+
+/**
+ * Read the base-field mappings, the English item type labels and the
+ * creator types. Labels come from the global schema Zotero keeps in the
+ * settings table; when it is missing getItemTypeLabel derives them from
+ * the type names.
+ */
+function extractSchema(db: SqlJsDatabase): ItemSchema {
+	const schema: ItemSchema = { itemTypeLabels: {}, baseFields: {}, creatorTypes: extractCreatorTypes(db) };
+
+	const mappingRows = query(
+		db,
+		`SELECT it.typeName AS itemType, f.fieldName AS field, bf.fieldName AS baseField
+		 FROM baseFieldMappings bfm
+		 JOIN itemTypes it ON bfm.itemTypeID  = it.itemTypeID
+		 JOIN fields f     ON bfm.fieldID     = f.fieldID
+		 JOIN fields bf    ON bfm.baseFieldID = bf.fieldID`
+	);
+	for (const row of mappingRows) {
+		const itemType = asString(row.itemType);
+		if (!schema.baseFields[itemType]) schema.baseFields[itemType] = {};
+		schema.baseFields[itemType][asString(row.field)] = asString(row.baseField);
+	}
+
+	try {
+		const rows = query(
+			db,
+			`SELECT value FROM settings WHERE setting = 'globalSchema' AND key = 'data'`
+		);
+		if (rows[0]) {
+			const globalSchema = JSON.parse(asString(rows[0].value)) as {
+				locales?: Record<string, { itemTypes?: Record<string, string> }>;
+			};
+			schema.itemTypeLabels = globalSchema.locales?.["en-US"]?.itemTypes ?? {};
+		}
+	} catch (e) {
+		console.warn("Could not read the Zotero global schema:", e);
+	}
+	return schema;
+}
+
+/**
+ * Names of the creator types of Zotero's creatorTypes table.
+ */
+function extractCreatorTypes(db: SqlJsDatabase): string[] {
+	const rows = query(db, `SELECT creatorType FROM creatorTypes ORDER BY creatorTypeID`);
+	return rows.map(row => asString(row.creatorType));
+}
+
+// ── Retraction extraction ────────────────────────────────────────────
+
+/**
+ * Read the items flagged by Zotero's Retraction Watch check and return,
+ * per itemID, the retraction date ("" when unknown).
+ * The retractedItems table exists since Zotero 5.0.67.
+ */
+function extractRetractions(db: SqlJsDatabase): Record<number, string> {
+	let rows: Record<string, unknown>[];
+	try {
+		rows = query(db, `SELECT itemID, data FROM retractedItems`);
+	} catch {
+		return {};
+	}
+
+	const result: Record<number, string> = {};
+	for (const row of rows) {
+		let date = "";
+		try {
+			const data = JSON.parse(asString(row.data)) as { date?: string };
+			date = typeof data.date === "string" ? data.date.slice(0, 10) : "";
+		} catch {
+			// Keep the item flagged even if its details cannot be read
+		}
+		result[row.itemID as number] = date;
+	}
+	return result;
+}
+
+// ── Tag colour extraction ────────────────────────────────────────────
+
+/**
+ * Read the coloured and emoji tags of every library, in the order Zotero
+ * shows them (their position is also their keyboard shortcut).
+ * Zotero stores them as JSON in syncedSettings; old databases used settings.
+ */
+function extractTagColors(db: SqlJsDatabase): Record<number, string[]> {
+	let rows: Record<string, unknown>[] = [];
+	try {
+		rows = query(
+			db,
+			`SELECT libraryID, value FROM syncedSettings WHERE setting = 'tagColors'`
+		);
+	} catch {
+		try {
+			rows = query(
+				db,
+				`SELECT key AS libraryID, value FROM settings WHERE setting = 'tagColors'`
+			);
+		} catch {
+			// Neither table exists in this database
+		}
+	}
+
+	const result: Record<number, string[]> = {};
+	for (const row of rows) {
+		try {
+			const colors = JSON.parse(asString(row.value)) as { name?: string }[];
+			if (!Array.isArray(colors)) continue;
+			result[Number(row.libraryID)] = colors
+				.map(c => c.name ?? "")
+				.filter(name => name.length > 0);
+		} catch (e) {
+			console.warn("Could not parse Zotero tag colours:", e);
+		}
+	}
+	return result;
+}
+
+/**
+ * Tags of an item that have a colour or emoji assigned, in Zotero's order.
+ */
+function getColoredTags(tags: Reference["tags"], colorOrder: string[] | undefined): string[] {
+	if (!colorOrder) return [];
+	const names = new Set(tags.map(t => t.tag));
+	return colorOrder.filter(name => names.has(name));
+}
+
+// ── Relation extraction ──────────────────────────────────────────────
+
+/**
+ * Read the manual "Related" links (dc:relation) and return, per itemID,
+ * the identities ("<libraryID>/<itemKey>") of the related items.
+ * Objects are Zotero URIs such as http://zotero.org/users/123/items/KEY
+ * or http://zotero.org/groups/456/items/KEY.
+ */
+function extractRelations(
+	db: SqlJsDatabase,
+	libraries: Record<number, Library>,
+	itemIds?: string
+): Record<number, string[]> {
+	const relatedByItem: Record<number, string[]> = {};
+	const rows = query(
+		db,
+		`SELECT ir.itemID, ir.object
+		 FROM itemRelations ir
+		 JOIN relationPredicates rp ON ir.predicateID = rp.predicateID
+		 WHERE rp.predicate = 'dc:relation'
+		 ${itemIds ? `AND ir.itemID IN (${itemIds})` : ""}`
+	);
+
+	for (const row of rows) {
+		const identity = getRelatedItemIdentity(asString(row.object), libraries);
+		if (!identity) continue;
+
+		const itemID = row.itemID as number;
+		if (!relatedByItem[itemID]) relatedByItem[itemID] = [];
+		if (!relatedByItem[itemID].includes(identity)) relatedByItem[itemID].push(identity);
+	}
+	return relatedByItem;
+}
+
+/**
+ * Identity of the item a relation URI points to, or null when it is not
+ * an item of one of the libraries.
+ */
+export function getRelatedItemIdentity(uri: string, libraries: Record<number, Library>): string | null {
+	const m = uri.match(/\/(users|groups)\/([^/]+)\/items\/([A-Z0-9]+)$/);
+	if (!m) return null;
+	const libraryList = Object.values(libraries);
+	const library = m[1] === "groups"
+		? libraryList.find(l => String(l.groupID) === m[2])
+		: libraryList.find(l => l.type === "user");
+	return library ? getItemIdentity({ libraryID: library.libraryID, itemKey: m[3]! }) : null;
+}
+
+// ── Annotation extraction ────────────────────────────────────────────
+
+const ANNOTATION_TYPES: Record<number, Annotation["annotationType"]> = {
+	1: "highlight",
+	2: "note",
+	3: "image",
+	4: "ink",
+	5: "underline",
+	6: "text",
+};
+
+function extractAnnotations(
+	db: SqlJsDatabase,
+	libraries: Record<number, Library>,
+	itemIds?: string
+): Record<number, Annotation[]> {
+	const annotationsByItem: Record<number, Annotation[]> = {};
+	const onlyItems = itemIds ? `AND att.parentItemID IN (${itemIds})` : "";
+
+	// itemAnnotations only exists in Zotero 6 and later
+	let annotRows: Record<string, unknown>[];
+	let tagRows: Record<string, unknown>[];
+	try {
+		annotRows = query(
+			db,
+			`SELECT ia.itemID, ia.type, ia.text, ia.comment, ia.color,
+			        ia.pageLabel, ia.sortIndex, ia.position,
+			        i.key, i.dateAdded, i.dateModified, i.libraryID,
+			        att.parentItemID, ai.key AS attachmentKey
+			 FROM itemAnnotations ia
+			 JOIN items i            ON ia.itemID = i.itemID
+			 JOIN itemAttachments att ON ia.parentItemID = att.itemID
+			 JOIN items ai           ON att.itemID = ai.itemID
+			 WHERE att.parentItemID IS NOT NULL
+			   AND i.itemID NOT IN (SELECT itemID FROM deletedItems)
+			   AND ai.itemID NOT IN (SELECT itemID FROM deletedItems)
+			   ${onlyItems}
+			 ORDER BY att.parentItemID, ia.parentItemID, ia.sortIndex`
+		);
+		tagRows = query(
+			db,
+			`SELECT itag.itemID, t.name AS tag
+			 FROM itemTags itag
+			 JOIN tags t              ON itag.tagID = t.tagID
+			 JOIN itemAnnotations ia  ON itag.itemID = ia.itemID
+			 JOIN itemAttachments att ON ia.parentItemID = att.itemID
+			 WHERE att.parentItemID IS NOT NULL
+			   ${onlyItems}`
+		);
+	} catch {
+		return annotationsByItem;
+	}
+
+	const tagsByAnnotation: Record<number, string[]> = {};
+	for (const t of tagRows) {
+		const tItemID = t.itemID as number;
+		if (!tagsByAnnotation[tItemID]) tagsByAnnotation[tItemID] = [];
+		tagsByAnnotation[tItemID].push(asString(t.tag));
+	}
+
+	for (const a of annotRows) {
+		const parentItemID = a.parentItemID as number;
+		if (!annotationsByItem[parentItemID]) annotationsByItem[parentItemID] = [];
+
+		let pageIndex = -1;
+		try {
+			const position = JSON.parse(asString(a.position)) as { pageIndex?: number };
+			if (typeof position.pageIndex === "number") pageIndex = position.pageIndex;
+		} catch {
+			// Position is not valid JSON (e.g. EPUB/snapshot annotations)
+		}
+
+		annotationsByItem[parentItemID].push({
+			key: asString(a.key),
+			attachmentKey: asString(a.attachmentKey),
+			groupID: libraries[a.libraryID as number]?.groupID ?? 0,
+			annotationType: ANNOTATION_TYPES[a.type as number] ?? "highlight",
+			text: asString(a.text),
+			comment: asString(a.comment),
+			color: asString(a.color).toLowerCase(),
+			pageLabel: asString(a.pageLabel),
+			pageIndex,
+			sortIndex: asString(a.sortIndex),
+			tags: tagsByAnnotation[a.itemID as number] || [],
+			dateAdded: asString(a.dateAdded),
+			dateModified: asString(a.dateModified),
+		});
+	}
+	return annotationsByItem;
+}
+
+// ── Collection extraction ────────────────────────────────────────────
+
+/**
+ * Read the collections, keyed by "<libraryID>/<key>" like saved searches:
+ * collection keys are only unique within a library.
+ */
+function extractCollections(
+	db: SqlJsDatabase
+): Record<string, Collection> {
+	const collRows = query(
+		db,
+		`SELECT c.collectionID, c.collectionName AS name,
+		        c.key, c.parentCollectionID, c.libraryID
+		 FROM collections c`
+	);
+
+	// Map collectionID → identity for parent lookup
+	const idToIdentity: Record<number, string> = {};
+	for (const c of collRows) {
+		idToIdentity[c.collectionID as number] = getItemIdentity({ libraryID: c.libraryID as number, itemKey: asString(c.key) });
+	}
+
+	// Item identities per collection
+	const ciRows = query(
+		db,
+		`SELECT ci.collectionID, i.key AS itemKey, i.libraryID
+		 FROM collectionItems ci
+		 JOIN items i ON ci.itemID = i.itemID`
+	);
+	const itemsByCollection: Record<number, string[]> = {};
+	for (const ci of ciRows) {
+		const collID = ci.collectionID as number;
+		if (!itemsByCollection[collID])
+			itemsByCollection[collID] = [];
+		itemsByCollection[collID].push(getItemIdentity({ libraryID: ci.libraryID as number, itemKey: asString(ci.itemKey) }));
+	}
+
+	// Build objects
+	const result: Record<string, Collection> = {};
+	for (const c of collRows) {
+		const key = asString(c.key);
+		result[idToIdentity[c.collectionID as number]!] = {
+			collections: [],
+			items: itemsByCollection[c.collectionID as number] || [],
+			key: key,
+			name: asString(c.name),
+			parent: c.parentCollectionID
+				? idToIdentity[c.parentCollectionID as number] || ""
+				: "",
+			libraryID: c.libraryID as number,
+		};
+	}
+
+	return result;
+}
+
+// ── Trash ────────────────────────────────────────────────────────────
+
+/**
+ * Identities ("<libraryID>/<itemKey>") of the regular items in the trash.
+ * Items purged from Zotero are not listed: they are simply gone.
+ */
+function extractTrashedItemKeys(db: SqlJsDatabase): string[] {
+	const rows = query(
+		db,
+		`SELECT i.key AS itemKey, i.libraryID
+		 FROM deletedItems d
+		 JOIN items i      ON d.itemID = i.itemID
+		 JOIN itemTypes it ON i.itemTypeID = it.itemTypeID
+		 WHERE it.typeName NOT IN ('attachment', 'note', 'annotation')`
+	);
+	return rows.map(row => getItemIdentity({ libraryID: row.libraryID as number, itemKey: asString(row.itemKey) }));
+}
+
+/**
+ * Identities of the regular items that are not in the trash.
+ */
+function extractLiveItemKeys(db: SqlJsDatabase, includeFeedItems = false): string[] {
+	const rows = query(
+		db,
+		`SELECT i.key AS itemKey, i.libraryID
+		 FROM items i
+		 JOIN itemTypes it ON i.itemTypeID = it.itemTypeID
+		 WHERE it.typeName NOT IN ('attachment', 'note', 'annotation')
+		   AND i.itemID NOT IN (SELECT itemID FROM deletedItems)
+		   ${feedItemsCondition(includeFeedItems)}`
+	);
+	return rows.map(row => getItemIdentity({ libraryID: row.libraryID as number, itemKey: asString(row.itemKey) }));
+}
+
+// ── Saved search extraction ──────────────────────────────────────────
+
+/**
+ * Read the saved searches and their conditions, keyed by
+ * "<libraryID>/<key>" (search keys are only unique within a library).
+ * The conditions are evaluated in zotero-search.ts.
+ */
+function extractSavedSearches(db: SqlJsDatabase): Record<string, SavedSearch> {
+	const searchRows = query(
+		db,
+		`SELECT savedSearchID, savedSearchName AS name, key, libraryID
+		 FROM savedSearches`
+	);
+	const conditionRows = query(
+		db,
+		`SELECT savedSearchID, condition, operator, value
+		 FROM savedSearchConditions
+		 ORDER BY savedSearchID, searchConditionID`
+	);
+
+	const conditionsBySearch: Record<number, SavedSearch["conditions"]> = {};
+	for (const c of conditionRows) {
+		const searchID = c.savedSearchID as number;
+		if (!conditionsBySearch[searchID]) conditionsBySearch[searchID] = [];
+		conditionsBySearch[searchID].push({
+			condition: asString(c.condition),
+			operator: asString(c.operator),
+			value: asString(c.value),
+		});
+	}
+
+	const result: Record<string, SavedSearch> = {};
+	for (const row of searchRows) {
+		const search: SavedSearch = {
+			key: asString(row.key),
+			name: asString(row.name),
+			libraryID: row.libraryID as number,
+			conditions: conditionsBySearch[row.savedSearchID as number] || [],
+		};
+		result[getItemIdentity({ libraryID: search.libraryID, itemKey: search.key })] = search;
+	}
+	return result;
+}
+
+// ── Full-text search ────────────────────────────────────────────────
+
+/**
+ * Find the parent items whose attachments contain the given words in
+ * Zotero's full-text word index (fulltextWords / fulltextItemWords), by
+ * prefix. Returns, per item identity, the query words found.
+ */
+export function searchFullText(db: SqlJsDatabase, words: string[]): Map<string, string[]> {
+	const matches = new Map<string, string[]>();
+	for (const word of words) {
+		// Words are split on letters/digits, so no quoting is needed
+		const safeWord = word.toLowerCase().replace(/[^\p{L}\p{N}]/gu, "");
+		if (!safeWord) continue;
+		const rows = query(
+			db,
+			`SELECT DISTINCT p.key AS itemKey, p.libraryID
+			 FROM fulltextWords fw
+			 JOIN fulltextItemWords fiw ON fw.wordID = fiw.wordID
+			 JOIN itemAttachments ia    ON fiw.itemID = ia.itemID
+			 JOIN items p               ON ia.parentItemID = p.itemID
+			 WHERE fw.word LIKE '${safeWord}%'
+			   AND ia.itemID NOT IN (SELECT itemID FROM deletedItems)`
+		);
+		for (const row of rows) {
+			const identity = getItemIdentity({ libraryID: row.libraryID as number, itemKey: asString(row.itemKey) });
+			const found = matches.get(identity) ?? [];
+			found.push(safeWord);
+			matches.set(identity, found);
+		}
+	}
+	return matches;
+}
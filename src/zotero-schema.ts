@@ -0,0 +1,93 @@
+/**
+ * Zotero Item Schema
+ *
+ * Item type labels, base-field mappings and creator types read from
+ * zotero.sqlite.
+ * Many item types store a generic field under their own name: a thesis has
+ * a "university" instead of a "publisher", a book section a "bookTitle"
+ * instead of a "publicationTitle", a statute a "nameOfAct" instead of a
+ * "title". The baseFieldMappings table links each of these fields to its
+ * base field so that templates can use the base name for every item type.
+ */
+
+export interface ItemSchema {
+	/** itemType → English label ("conferencePaper" → "Conference Paper") */
+	itemTypeLabels: Record<string, string>;
+	/** itemType → type-specific field → base field */
+	baseFields: Record<string, Record<string, string>>;
+	/** Creator types of all item types ("author", "editor", "seriesEditor", ...) */
+	creatorTypes: string[];
+}
+
+// Labels whose words cannot be derived from the camelCase type name
+const IRREGULAR_LABELS: Record<string, string> = {
+	computerProgram: "Software",
+	tvBroadcast: "TV Broadcast",
+	webpage: "Web Page",
+};
+
+/**
+ * Label of an item type: the label of the Zotero schema when known,
+ * otherwise the type name split into capitalised words.
+ */
+export function getItemTypeLabel(schema: ItemSchema | undefined, itemType: string): string {
+	const label = schema?.itemTypeLabels[itemType] ?? IRREGULAR_LABELS[itemType];
+	if (label) return label;
+	return itemType
+		.replace(/([a-z])([A-Z])/g, "$1 $2")
+		.replace(/^./, c => c.toUpperCase());
+}
+
+/**
+ * Copy the values of type-specific fields to their base field
+ * (e.g. university → publisher) unless the base field is already set.
+ * The type-specific fields are kept.
+ */
+export function applyBaseFields(
+	schema: ItemSchema | undefined,
+	itemType: string,
+	fields: Record<string, string>
+): Record<string, string> {
+	const mappings = schema?.baseFields[itemType];
+	if (!mappings) return fields;
+	const result = { ...fields };
+	for (const [field, baseField] of Object.entries(mappings)) {
+		if (fields[field] && !result[baseField]) result[baseField] = fields[field];
+	}
+	return result;
+}
+
+/**
+ * Zotero's global schema, as stored in the settings table and served by
+ * the local API (only the parts used here).
+ */
+export interface GlobalSchema {
+	itemTypes?: {
+		itemType: string;
+		fields?: { field: string; baseField?: string }[];
+		creatorTypes?: { creatorType: string }[];
+	}[];
+	locales?: Record<string, { itemTypes?: Record<string, string> }>;
+}
+
+/**
+ * Item type labels, base-field mappings and creator types of a global schema.
+ */
+export function parseGlobalSchema(globalSchema: GlobalSchema): ItemSchema {
+	const schema: ItemSchema = {
+		itemTypeLabels: globalSchema.locales?.["en-US"]?.itemTypes ?? {},
+		baseFields: {},
+		creatorTypes: [],
+	};
+	const creatorTypes = new Set<string>();
+	for (const { itemType, fields, creatorTypes: itemCreatorTypes } of globalSchema.itemTypes ?? []) {
+		for (const { creatorType } of itemCreatorTypes ?? []) creatorTypes.add(creatorType);
+		for (const { field, baseField } of fields ?? []) {
+			if (!baseField) continue;
+			if (!schema.baseFields[itemType]) schema.baseFields[itemType] = {};
+			schema.baseFields[itemType][field] = baseField;
+		}
+	}
+	schema.creatorTypes = [...creatorTypes];
+	return schema;
+}
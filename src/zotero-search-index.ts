@@ -0,0 +1,318 @@
+/**
+ * Search Index
+ *
+ * Inverted index of the words of the cached items, used by the reference
+ * picker and by ZoteroCacheManager.searchItems. It is saved next to the
+ * cache file and kept up to date by ZoteroCacheManager.updateCache, so
+ * that a search never scans the whole library.
+ *
+ * Every word of the title, authors, journal, citation key, tags and
+ * abstract is a token; a query word matches the tokens it occurs in
+ * ("2020" finds "smith2020"). Tokens are kept sorted, so the tokens that
+ * start with the query word are found without scanning; the others are
+ * found by a scan of the distinct tokens, which are far fewer than the
+ * words of the items. Chinese, Japanese and Korean characters are tokens
+ * of their own, since these scripts do not separate words.
+ */
+
+import { Reference } from "./types";
+import { getItemIdentity } from "./zotero-reader";
+
+// Bump when the tokens or the file format change: older indexes are rebuilt
+const INDEX_VERSION = 1;
+
+// Searched fields, their weight and their flag in a posting
+const FIELDS = [
+	{ name: "title", weight: 100 },
+	{ name: "author", weight: 80 },
+	{ name: "journal", weight: 60 },
+	{ name: "citeKey", weight: 50 },
+	{ name: "tags", weight: 40 },
+	{ name: "abstract", weight: 30 },
+] as const;
+
+type SearchField = typeof FIELDS[number]["name"];
+
+// Set when the token is the first word of the title / of the authors
+const TITLE_START = 1 << FIELDS.length;
+const AUTHOR_START = TITLE_START << 1;
+// A posting is docID * POSTING_BASE + the flags of the token in that item
+const POSTING_BASE = AUTHOR_START << 1;
+
+// Removed items keep their docID until more than this share of the docIDs is unused
+const MAX_REMOVED_SHARE = 0.25;
+
+const WORD_REG = /[\p{L}\p{M}\p{N}]+/gu;
+const CJK_REG = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/u;
+const CJK_SPLIT_REG = /([\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}])/u;
+
+/** Index as saved in the index file */
+export interface SerializedSearchIndex {
+	version: number;
+	/** lastModified of the cache the index belongs to */
+	cacheLastModified: string;
+	/** Item identity of each docID, "" for removed items */
+	docs: string[];
+	/** Tokens in sorted order, with the postings of each token */
+	tokens: string[];
+	postings: number[][];
+}
+
+export interface SearchResult {
+	/** Item identity ("<libraryID>/<itemKey>") */
+	identity: string;
+	score: number;
+	matchesAllKeywords: boolean;
+}
+
+/**
+ * Lowercase words of a text, as they are indexed and searched.
+ */
+export function tokenize(text: string): string[] {
+	const lower = text.toLowerCase();
+	const words = lower.match(WORD_REG) ?? [];
+	if (!CJK_REG.test(lower)) return words;
+	return words.flatMap(word => CJK_REG.test(word) ? word.split(CJK_SPLIT_REG).filter(part => part) : [word]);
+}
+
+/**
+ * Text of the searched fields of an item. Authors are the creators of type
+ * "author", or all creators when there are none (e.g. edited books).
+ */
+export function getSearchFields(item: Reference): Record<SearchField, string> {
+	const creators = item.creators ?? [];
+	const authors = creators.some(c => c.creatorType === "author")
+		? creators.filter(c => c.creatorType === "author")
+		: creators;
+	return {
+		title: item.title || "",
+		author: authors.map(c => c.name || `${c.firstName} ${c.lastName}`).join(", "),
+		journal: item.publicationTitle || "",
+		citeKey: item.citationKey || "",
+		tags: (item.tags ?? []).map(t => t.tag).join(" "),
+		abstract: item.abstractNote || "",
+	};
+}
+
+/** Flags of each distinct token of an item */
+function getTokenFlags(item: Reference): Map<string, number> {
+	const flags = new Map<string, number>();
+	const fields = getSearchFields(item);
+	FIELDS.forEach(({ name }, i) => {
+		const tokens = tokenize(fields[name]);
+		for (const token of tokens) flags.set(token, (flags.get(token) ?? 0) | (1 << i));
+		if (name === "title" && tokens[0]) flags.set(tokens[0], flags.get(tokens[0])! | TITLE_START);
+		if (name === "author" && tokens[0]) flags.set(tokens[0], flags.get(tokens[0])! | AUTHOR_START);
+	});
+	return flags;
+}
+
+/** Index of the first element of a sorted array that is not lower than value */
+function lowerBound<T>(sorted: T[], value: T): number {
+	let low = 0;
+	let high = sorted.length;
+	while (low < high) {
+		const middle = (low + high) >>> 1;
+		if (sorted[middle]! < value) low = middle + 1;
+		else high = middle;
+	}
+	return low;
+}
+
+export class SearchIndex {
+	private docs: string[] = [];
+	private docIDs = new Map<string, number>();
+	private tokens: string[] = [];
+	private postings: number[][] = [];
+	// Number of "" entries in docs
+	private removedCount = 0;
+
+	/**
+	 * Index of a list of items.
+	 */
+	static build(items: Reference[]): SearchIndex {
+		const index = new SearchIndex();
+		// Collect the postings first: inserting tokens one by one would keep re-sorting them
+		const postingsByToken = new Map<string, number[]>();
+		for (const item of items) {
+			const docID = index.addDoc(item);
+			for (const [token, flags] of getTokenFlags(item)) {
+				let postings = postingsByToken.get(token);
+				if (!postings) postingsByToken.set(token, postings = []);
+				postings.push(docID * POSTING_BASE + flags);
+			}
+		}
+		index.tokens = [...postingsByToken.keys()].sort();
+		index.postings = index.tokens.map(token => postingsByToken.get(token)!);
+		return index;
+	}
+
+	/**
+	 * Index read from the index file. Returns null when it was written by
+	 * another version or for another state of the cache.
+	 */
+	static fromJSON(data: SerializedSearchIndex, cacheLastModified: string): SearchIndex | null {
+		if (data.version !== INDEX_VERSION || data.cacheLastModified !== cacheLastModified) return null;
+		const index = new SearchIndex();
+		index.docs = data.docs;
+		data.docs.forEach((identity, docID) => {
+			if (identity) index.docIDs.set(identity, docID);
+			else index.removedCount++;
+		});
+		index.tokens = data.tokens;
+		index.postings = data.postings;
+		return index;
+	}
+
+	toJSON(cacheLastModified: string): SerializedSearchIndex {
+		return {
+			version: INDEX_VERSION,
+			cacheLastModified,
+			docs: this.docs,
+			tokens: this.tokens,
+			postings: this.postings,
+		};
+	}
+
+	private addDoc(item: Reference): number {
+		const docID = this.docs.length;
+		const identity = getItemIdentity(item);
+		this.docs.push(identity);
+		this.docIDs.set(identity, docID);
+		return docID;
+	}
+
+	/**
+	 * Add an item, replacing the previous version of the item when given.
+	 */
+	add(item: Reference, previous?: Reference): void {
+		if (previous) this.remove(previous);
+		const docID = this.addDoc(item);
+		for (const [token, flags] of getTokenFlags(item)) {
+			const i = lowerBound(this.tokens, token);
+			if (this.tokens[i] !== token) {
+				this.tokens.splice(i, 0, token);
+				this.postings.splice(i, 0, []);
+			}
+			// docIDs only grow, so the postings stay sorted
+			this.postings[i]!.push(docID * POSTING_BASE + flags);
+		}
+	}
+
+	/**
+	 * Remove an item. Its tokens are found again from its fields.
+	 */
+	remove(item: Reference): void {
+		const identity = getItemIdentity(item);
+		const docID = this.docIDs.get(identity);
+		if (docID === undefined) return;
+		for (const token of getTokenFlags(item).keys()) {
+			const i = lowerBound(this.tokens, token);
+			if (this.tokens[i] !== token) continue;
+			const postings = this.postings[i]!;
+			const p = lowerBound(postings, docID * POSTING_BASE);
+			if (p < postings.length && Math.floor(postings[p]! / POSTING_BASE) === docID) postings.splice(p, 1);
+			if (postings.length === 0) {
+				this.tokens.splice(i, 1);
+				this.postings.splice(i, 1);
+			}
+		}
+		this.docs[docID] = "";
+		this.docIDs.delete(identity);
+		this.removedCount++;
+		if (this.removedCount > this.docs.length * MAX_REMOVED_SHARE) this.compact();
+	}
+
+	/**
+	 * Renumber the items without the docIDs of removed items, so that the
+	 * index does not keep growing as items are updated.
+	 */
+	private compact(): void {
+		const newDocIDs = new Int32Array(this.docs.length);
+		const docs: string[] = [];
+		this.docs.forEach((identity, docID) => {
+			newDocIDs[docID] = identity ? docs.push(identity) - 1 : -1;
+		});
+		// Renumbering keeps the order of the docIDs, so the postings stay sorted
+		this.postings = this.postings.map(postings => postings.map(posting => {
+			const docID = Math.floor(posting / POSTING_BASE);
+			return newDocIDs[docID]! * POSTING_BASE + posting % POSTING_BASE;
+		}));
+		this.docs = docs;
+		this.docIDs = new Map(docs.map((identity, docID) => [identity, docID]));
+		this.removedCount = 0;
+	}
+
+	/**
+	 * Find the items matching the words of a query, best first. A word
+	 * scores the weight of each field where it occurs in a token, with a
+	 * bonus when it is the whole token and when it starts the title or the
+	 * authors. Items matching every word of the query rank first.
+	 */
+	search(query: string): SearchResult[] {
+		const keywords = [...new Set(tokenize(query))];
+		if (keywords.length === 0) return [];
+
+		// Best score of each field of each item for the current keyword, and the totals
+		const fieldScores = new Float64Array(this.docs.length * FIELDS.length);
+		const scores = new Float64Array(this.docs.length);
+		const matched = new Uint16Array(this.docs.length);
+		const found: number[] = [];
+		for (const keyword of keywords) {
+			const touched: number[] = [];
+			const seen = new Uint8Array(this.docs.length);
+			const addPostings = (i: number): void => {
+				const exact = this.tokens[i] === keyword ? 1.5 : 1;
+				for (const posting of this.postings[i]!) {
+					const docID = Math.floor(posting / POSTING_BASE);
+					const flags = posting % POSTING_BASE;
+					const offset = docID * FIELDS.length;
+					if (!seen[docID]) {
+						seen[docID] = 1;
+						touched.push(docID);
+					}
+					for (let f = 0; f < FIELDS.length; f++) {
+						if (!(flags & (1 << f))) continue;
+						const start = (f === 0 && flags & TITLE_START) || (f === 1 && flags & AUTHOR_START) ? 2 : 1;
+						fieldScores[offset + f] = Math.max(fieldScores[offset + f]!, FIELDS[f]!.weight * exact * start);
+					}
+				}
+			};
+			// Tokens starting with the keyword are next to each other
+			const first = lowerBound(this.tokens, keyword);
+			let last = first;
+			while (last < this.tokens.length && this.tokens[last]!.startsWith(keyword)) addPostings(last++);
+			// Tokens with the keyword further in
+			for (let i = 0; i < this.tokens.length; i++) {
+				if (i === first) i = last;
+				if (i < this.tokens.length && this.tokens[i]!.includes(keyword, 1)) addPostings(i);
+			}
+			for (const docID of touched) {
+				const offset = docID * FIELDS.length;
+				for (let f = 0; f < FIELDS.length; f++) {
+					scores[docID] = scores[docID]! + fieldScores[offset + f]!;
+					fieldScores[offset + f] = 0;
+				}
+				if (matched[docID] === 0) found.push(docID);
+				matched[docID] = matched[docID]! + 1;
+			}
+		}
+
+		const results: SearchResult[] = [];
+		for (const docID of found) {
+			const identity = this.docs[docID];
+			if (!identity) continue;
+			const matchesAllKeywords = matched[docID] === keywords.length;
+			results.push({
+				identity,
+				score: matchesAllKeywords && keywords.length > 1 ? scores[docID]! * 1.5 : scores[docID]!,
+				matchesAllKeywords,
+			});
+		}
+		results.sort((a, b) => {
+			if (a.matchesAllKeywords !== b.matchesAllKeywords) return a.matchesAllKeywords ? -1 : 1;
+			return b.score - a.score;
+		});
+		return results;
+	}
+}
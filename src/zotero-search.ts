@@ -0,0 +1,262 @@
+/**
+ * Zotero Saved Search Evaluator
+ *
+ * Evaluates the conditions of Zotero saved searches against the items
+ * already loaded by readZoteroDatabase, so that a saved search can be used
+ * as a scope for updating the library or as a filter in the reference picker.
+ *
+ * Supported conditions: collection (with "Search subcollections"),
+ * savedSearch, tag, itemType, dateAdded, dateModified, creator, lastName,
+ * year, quick search and item fields (title, publicationTitle, DOI, ...).
+ * Conditions that need data the plugin does not load (full text, notes,
+ * annotations, ...) are ignored.
+ */
+
+import { Collection, Reference, SavedSearch, SearchCondition } from "./types";
+import { getItemIdentity } from "./zotero-reader";
+
+export interface SearchData {
+	items: Reference[];
+	collections: Record<string, Collection>;
+	savedSearches: Record<string, SavedSearch>;
+}
+
+// Conditions that only change how the results are displayed in Zotero
+const DISPLAY_CONDITIONS = new Set([
+	"joinMode",
+	"recursive",
+	"noChildren",
+	"includeParentsAndChildren",
+	"includeParents",
+	"includeChildren",
+]);
+
+// ── Helpers ──────────────────────────────────────────────────────────
+
+function compareText(value: string, operator: string, target: string): boolean | null {
+	const v = value.toLowerCase();
+	const t = target.toLowerCase();
+	switch (operator) {
+		case "is": return v === t;
+		case "isNot": return v !== t;
+		case "contains": return v.includes(t);
+		case "doesNotContain": return !v.includes(t);
+		case "beginsWith": return v.startsWith(t);
+		default: return null;
+	}
+}
+
+/**
+ * Compare a list of values: positive operators match when any value matches,
+ * negative operators ("isNot", "doesNotContain") when no value matches.
+ */
+function compareList(values: string[], operator: string, target: string): boolean | null {
+	if (operator === "isNot") return !values.some(v => compareText(v, "is", target));
+	if (operator === "doesNotContain") return !values.some(v => compareText(v, "contains", target));
+	const results = values.map(v => compareText(v, operator, target));
+	if (results.includes(null)) return null;
+	return results.some(r => r);
+}
+
+/** "YYYY-MM-DD" of a Zotero timestamp ("YYYY-MM-DD HH:MM:SS", UTC) or a search value */
+function toDay(value: string): string {
+	const lower = value.trim().toLowerCase();
+	const now = new Date();
+	if (lower === "today") return now.toISOString().slice(0, 10);
+	if (lower === "yesterday") return new Date(now.getTime() - 86400000).toISOString().slice(0, 10);
+	if (/^\d{4}-\d{2}-\d{2}/.test(lower)) return lower.slice(0, 10);
+	const parsed = Date.parse(value);
+	return isNaN(parsed) ? "" : new Date(parsed).toISOString().slice(0, 10);
+}
+
+/** Start of the "in the last N days/weeks/months/years" window */
+function startOfLast(value: string): Date | null {
+	const m = value.trim().match(/^(\d+)\s*(day|week|month|year)s?$/i);
+	if (!m) return null;
+	const amount = Number(m[1]);
+	const start = new Date();
+	switch (m[2]!.toLowerCase()) {
+		case "day": start.setDate(start.getDate() - amount); break;
+		case "week": start.setDate(start.getDate() - amount * 7); break;
+		case "month": start.setMonth(start.getMonth() - amount); break;
+		case "year": start.setFullYear(start.getFullYear() - amount); break;
+	}
+	return start;
+}
+
+function compareDate(timestamp: string, operator: string, value: string): boolean | null {
+	if (!timestamp) return false;
+	if (operator === "isInTheLast") {
+		const start = startOfLast(value);
+		if (!start) return null;
+		return new Date(timestamp.replace(" ", "T") + "Z") >= start;
+	}
+	const day = timestamp.slice(0, 10);
+	const target = toDay(value);
+	if (!target) return null;
+	switch (operator) {
+		case "is": return day === target;
+		case "isNot": return day !== target;
+		case "isBefore": return day < target;
+		case "isAfter": return day > target;
+		default: return null;
+	}
+}
+
+function compareNumber(value: string, operator: string, target: string): boolean | null {
+	switch (operator) {
+		case "isLessThan": return value !== "" && Number(value) < Number(target);
+		case "isGreaterThan": return value !== "" && Number(value) > Number(target);
+		default: return compareText(value, operator, target);
+	}
+}
+
+function creatorNames(item: Reference): string[] {
+	return (item.creators || []).map(c => c.name || `${c.firstName} ${c.lastName}`.trim());
+}
+
+function itemYear(item: Reference): string {
+	return item.date?.match(/\d{4}/)?.[0] ?? "";
+}
+
+// ── Evaluator ────────────────────────────────────────────────────────
+
+class SavedSearchEvaluator {
+	private data: SearchData;
+	// Saved searches currently being evaluated, to stop circular references
+	private evaluating = new Set<string>();
+	// Results reused while evaluating every item of a search
+	private searchResults = new Map<string, Set<string>>();
+	private collectionResults = new Map<string, Set<string>>();
+
+	constructor(data: SearchData) {
+		this.data = data;
+	}
+
+	/**
+	 * Identities of the items of a collection ("<libraryID>/<key>"),
+	 * optionally including its subcollections.
+	 */
+	private collectionItems(collectionIdentity: string, recursive: boolean): Set<string> {
+		const cacheKey = `${collectionIdentity}/${String(recursive)}`;
+		const cached = this.collectionResults.get(cacheKey);
+		if (cached) return cached;
+
+		const items = new Set<string>();
+		const queue = [collectionIdentity];
+		const seen = new Set<string>();
+		while (queue.length > 0) {
+			const identity = queue.shift()!;
+			if (seen.has(identity)) continue;
+			seen.add(identity);
+			const collection = this.data.collections[identity];
+			if (!collection) continue;
+			collection.items.forEach(item => items.add(item));
+			if (!recursive) continue;
+			for (const [childIdentity, child] of Object.entries(this.data.collections)) {
+				if (child.parent === identity) queue.push(childIdentity);
+			}
+		}
+		this.collectionResults.set(cacheKey, items);
+		return items;
+	}
+
+	/**
+	 * Evaluate one condition. Returns null when the condition is not supported.
+	 */
+	private matchCondition(
+		item: Reference,
+		condition: SearchCondition,
+		search: SavedSearch,
+		recursive: boolean
+	): boolean | null {
+		const { operator, value } = condition;
+		const isNegative = operator === "isNot";
+
+		switch (condition.condition) {
+			case "collection": {
+				// Older versions store "<libraryID>_<key>"
+				const key = value.includes("_") ? value.split("_").pop()! : value;
+				const identity = getItemIdentity({ libraryID: search.libraryID, itemKey: key });
+				const inCollection = this.collectionItems(identity, recursive).has(getItemIdentity(item));
+				return isNegative ? !inCollection : inCollection;
+			}
+			case "savedSearch": {
+				const key = value.includes("_") ? value.split("_").pop()! : value;
+				const identity = getItemIdentity({ libraryID: search.libraryID, itemKey: key });
+				const inSearch = this.evaluate(identity).has(getItemIdentity(item));
+				return isNegative ? !inSearch : inSearch;
+			}
+			case "tag":
+				return compareList((item.tags || []).map(t => t.tag), operator, value);
+			case "itemType":
+				return compareText(item.itemType, operator, value);
+			case "dateAdded":
+				return compareDate(item.dateAdded, operator, value);
+			case "dateModified":
+				return compareDate(item.dateModified, operator, value);
+			case "creator":
+				return compareList(creatorNames(item), operator, value);
+			case "lastName":
+				return compareList((item.creators || []).map(c => c.lastName || c.name), operator, value);
+			case "year":
+				return compareNumber(itemYear(item), operator, value);
+			case "quicksearch-titleCreatorYear":
+			case "quicksearch-fields":
+			case "quicksearch-everything":
+				return compareList([item.title, itemYear(item), ...creatorNames(item)], operator, value);
+			default: {
+				// Item fields (title, publicationTitle, DOI, ...)
+				const fieldValue = (item as unknown as Record<string, unknown>)[condition.condition];
+				if (typeof fieldValue === "string" || typeof fieldValue === "number") {
+					return compareNumber(String(fieldValue), operator, value);
+				}
+				// The field is not set on this item: only negative operators match
+				if (["is", "contains", "beginsWith", "isLessThan", "isGreaterThan"].includes(operator)) return false;
+				if (["isNot", "doesNotContain"].includes(operator)) return true;
+				return null;
+			}
+		}
+	}
+
+	/**
+	 * Identities ("<libraryID>/<itemKey>") of the items matching a saved search.
+	 */
+	evaluate(searchIdentity: string): Set<string> {
+		const cached = this.searchResults.get(searchIdentity);
+		if (cached) return cached;
+
+		const search = this.data.savedSearches[searchIdentity];
+		const result = new Set<string>();
+		if (!search || this.evaluating.has(searchIdentity)) return result;
+		this.evaluating.add(searchIdentity);
+
+		const joinAny = search.conditions.some(c => c.condition === "joinMode" && c.value === "any");
+		const recursive = search.conditions.some(c => c.condition === "recursive" && c.value === "true");
+		const conditions = search.conditions.filter(c => !DISPLAY_CONDITIONS.has(c.condition));
+
+		for (const item of this.data.items) {
+			if (item.libraryID !== search.libraryID) continue;
+			const results = conditions
+				.map(c => this.matchCondition(item, c, search, recursive))
+				.filter((r): r is boolean => r !== null);
+			const matches = results.length === 0 || (joinAny ? results.some(r => r) : results.every(r => r));
+			if (matches) result.add(getItemIdentity(item));
+		}
+
+		this.evaluating.delete(searchIdentity);
+		this.searchResults.set(searchIdentity, result);
+		return result;
+	}
+}
+
+// ── Public API ───────────────────────────────────────────────────────
+
+/**
+ * Identities ("<libraryID>/<itemKey>") of the items matching the saved
+ * search with the given identity ("<libraryID>/<key>").
+ * Returns an empty set when the saved search does not exist.
+ */
+export function getSavedSearchItems(data: SearchData, searchIdentity: string): Set<string> {
+	return new SavedSearchEvaluator(data).evaluate(searchIdentity);
+}
@@ -0,0 +1,153 @@
+/**
+ * Zotero Sources
+ *
+ * Besides the main Zotero database of the settings, the plugin can read
+ * additional databases (e.g. a personal profile and a project profile on
+ * the same computer). Each additional source has its own database, cache
+ * file, export folder and template; its other options are the main ones.
+ * Items remember their source in Reference.sourceName.
+ *
+ * The path of a source is either a zotero.sqlite database or a Better
+ * BibTeX export (.bib or .json, see zotero-export.ts); getDataSource
+ * reads both the same way. The main database can also be read through
+ * Zotero 7's local API (see zotero-api.ts).
+ */
+
+import { App } from "obsidian";
+import { readLocalApi } from "./zotero-api";
+import { ZoteroDirectSettings } from "./types";
+import { getCacheManager, ZoteroCacheManager } from "./zotero-cache";
+import { FullTextIndex, ZoteroReadOptions, openFullTextIndex, readZoteroDatabase, readZoteroDatabaseIncremental } from "./zotero-db";
+import { isExportFile, readExportFile } from "./zotero-export";
+import { IncrementalUpdate, ReadWatermark, ZoteroData } from "./zotero-reader";
+
+/**
+ * Where the data of a source comes from. Every kind of source produces
+ * the ZoteroData of readZoteroDatabase, so that the picker, templates and
+ * Update Library work the same with all of them.
+ */
+export interface DataSource {
+	/** Read every item */
+	read(): Promise<ZoteroData>;
+	/** Read the items changed since a previous read; null when a full read is needed */
+	readChanges(since: ReadWatermark): Promise<IncrementalUpdate | null>;
+	/** Full-text index of the attachments; null when the source has none */
+	openFullTextIndex(): Promise<FullTextIndex | null>;
+}
+
+/**
+ * Names of the sources to read, the main database first. Sources without
+ * a database path are skipped.
+ */
+export function getSourceNames(settings: ZoteroDirectSettings): string[] {
+	const names = settings.zoteroDbPath ? [settings.sourceName] : [];
+	for (const source of settings.sources) {
+		if (source.name && source.zoteroDbPath && !names.includes(source.name)) names.push(source.name);
+	}
+	return names;
+}
+
+/**
+ * Settings to use for a source: the main settings with the database path,
+ * export folder, template and last update date of the source. Unknown
+ * names get the main settings.
+ */
+export function getSourceSettings(settings: ZoteroDirectSettings, sourceName: string): ZoteroDirectSettings {
+	const source = sourceName === settings.sourceName
+		? undefined
+		: settings.sources.find(s => s.name === sourceName);
+	if (!source) return settings;
+	return {
+		...settings,
+		zoteroDbPath: source.zoteroDbPath,
+		exportPath: source.exportPath || settings.exportPath,
+		templateType: source.templateContent ? "Custom" : settings.templateType,
+		templateContent: source.templateContent || settings.templateContent,
+		lastUpdateDate: source.lastUpdateDate ?? new Date(0),
+	};
+}
+
+/**
+ * Record when the notes of a source were last updated by Update Library.
+ */
+export function setLastUpdateDate(settings: ZoteroDirectSettings, sourceName: string, date: Date): void {
+	const source = settings.sources.find(s => s.name === sourceName);
+	if (sourceName === settings.sourceName || !source) {
+		settings.lastUpdateDate = date;
+	} else {
+		source.lastUpdateDate = date;
+	}
+}
+
+/**
+ * Cache manager of a source. The main database keeps zotero-cache.json,
+ * additional sources use zotero-cache-<encoded name>.json.
+ */
+export function getSourceCacheManager(app: App, settings: ZoteroDirectSettings, sourceName: string): ZoteroCacheManager {
+	const { zoteroDbPath } = getSourceSettings(settings, sourceName);
+	const isMain = sourceName === settings.sourceName || !settings.sources.some(s => s.name === sourceName);
+	const cacheName = isMain ? "zotero-cache" : "zotero-cache-" + encodeFileName(sourceName);
+	return getCacheManager(app, zoteroDbPath, cacheName);
+}
+
+/**
+ * A name usable in a file name that no other name encodes to: characters
+ * that file systems reject are percent-encoded, and so are capitals, which
+ * case-insensitive file systems would not tell apart ("a/b" → "a%2Fb",
+ * "Work" → "%57ork").
+ */
+function encodeFileName(name: string): string {
+	return [...name]
+		.map(c => /[*A-Z]/.test(c) ? "%" + c.charCodeAt(0).toString(16).toUpperCase() : encodeURIComponent(c))
+		.join("");
+}
+
+/**
+ * Data source of a source: its Zotero database, or its Better BibTeX
+ * export when the path is a .bib or .json file. Changes to an export are
+ * noticed from its modification time (see ZoteroCacheManager.hasDbChanged)
+ * and always lead to a full read.
+ *
+ * With useLocalApi, the main database is read through the local API of the
+ * running Zotero, and from the file when Zotero does not answer or has a
+ * group library the file was never read for (see zotero-api.ts). The
+ * libraryIDs of the groups come from the cache of the source, loaded first
+ * when needed. The local API has no incremental reads either: every change
+ * leads to a full read.
+ */
+export function getDataSource(
+	settings: ZoteroDirectSettings,
+	sourceName: string,
+	pluginDir: string,
+	options: ZoteroReadOptions,
+	cacheManager: Pick<ZoteroCacheManager, "getCache" | "loadCache">
+): DataSource {
+	const { zoteroDbPath } = getSourceSettings(settings, sourceName);
+	if (isExportFile(zoteroDbPath)) {
+		return {
+			read: async () => readExportFile(zoteroDbPath, options),
+			readChanges: async () => null,
+			openFullTextIndex: async () => null,
+		};
+	}
+	if (settings.useLocalApi && sourceName === settings.sourceName) {
+		return {
+			read: async () => {
+				try {
+					const cache = cacheManager.getCache() ?? await cacheManager.loadCache();
+					return await readLocalApi(settings.localApiUrl, zoteroDbPath, { ...options, knownLibraries: cache?.libraries });
+				} catch (e) {
+					console.warn("[BibNotes] Could not read through the Zotero local API, reading the database:", e);
+					return readZoteroDatabase(zoteroDbPath, pluginDir, options);
+				}
+			},
+			readChanges: async () => null,
+			openFullTextIndex: () => openFullTextIndex(zoteroDbPath, pluginDir),
+		};
+	}
+	return {
+		read: () => readZoteroDatabase(zoteroDbPath, pluginDir, options),
+		readChanges: (since) => readZoteroDatabaseIncremental(zoteroDbPath, since, {}, pluginDir, options),
+		openFullTextIndex: () => openFullTextIndex(zoteroDbPath, pluginDir),
+	};
+}
@@ -0,0 +1,130 @@
+/**
+ * SQLite Write-Ahead Log Reader
+ *
+ * While Zotero is running, recent writes live in zotero.sqlite-wal until
+ * SQLite checkpoints them into the main file. sql.js only sees the bytes it
+ * is given, so the committed WAL frames are copied onto an in-memory copy of
+ * the database before it is opened. The files on disk are never modified.
+ *
+ * Format reference: https://www.sqlite.org/fileformat2.html#the_write_ahead_log
+ */
+
+import * as fs from "fs";
+
+const WAL_HEADER_SIZE = 32;
+const WAL_FRAME_HEADER_SIZE = 24;
+const WAL_MAGIC_LE = 0x377f0682;
+const WAL_MAGIC_BE = 0x377f0683;
+
+/**
+ * Path of the write-ahead log that belongs to a database file.
+ */
+export function getWalPath(dbPath: string): string {
+	return dbPath + "-wal";
+}
+
+/**
+ * SQLite's WAL checksum over `length` bytes starting at `offset`,
+ * continuing from the running checksum `[s0, s1]`.
+ */
+function walChecksum(
+	data: DataView,
+	offset: number,
+	length: number,
+	littleEndian: boolean,
+	s0: number,
+	s1: number
+): [number, number] {
+	for (let i = offset; i < offset + length; i += 8) {
+		s0 = (s0 + data.getUint32(i, littleEndian) + s1) >>> 0;
+		s1 = (s1 + data.getUint32(i + 4, littleEndian) + s0) >>> 0;
+	}
+	return [s0, s1];
+}
+
+/**
+ * Return the pages written by committed transactions in a WAL file
+ * (later frames win) and the database size in pages after the last commit.
+ * Returns null when the WAL is empty, stale or corrupt.
+ */
+function readCommittedFrames(wal: Uint8Array): { pageSize: number; dbPages: number; pages: Map<number, Uint8Array> } | null {
+	if (wal.length < WAL_HEADER_SIZE) return null;
+	const view = new DataView(wal.buffer, wal.byteOffset, wal.byteLength);
+
+	const magic = view.getUint32(0);
+	if (magic !== WAL_MAGIC_LE && magic !== WAL_MAGIC_BE) return null;
+	const littleEndian = magic === WAL_MAGIC_LE;
+
+	const pageSize = view.getUint32(8) === 1 ? 65536 : view.getUint32(8);
+	const salt1 = view.getUint32(16);
+	const salt2 = view.getUint32(20);
+	let [s0, s1] = walChecksum(view, 0, 24, littleEndian, 0, 0);
+	if (s0 !== view.getUint32(24) || s1 !== view.getUint32(28)) return null;
+
+	const frameSize = WAL_FRAME_HEADER_SIZE + pageSize;
+	const pending = new Map<number, Uint8Array>();
+	const committed = new Map<number, Uint8Array>();
+	let dbPages = 0;
+
+	for (let offset = WAL_HEADER_SIZE; offset + frameSize <= wal.length; offset += frameSize) {
+		// Frames left over from before the last checkpoint carry old salts
+		if (view.getUint32(offset + 8) !== salt1 || view.getUint32(offset + 12) !== salt2) break;
+
+		[s0, s1] = walChecksum(view, offset, 8, littleEndian, s0, s1);
+		[s0, s1] = walChecksum(view, offset + WAL_FRAME_HEADER_SIZE, pageSize, littleEndian, s0, s1);
+		if (s0 !== view.getUint32(offset + 16) || s1 !== view.getUint32(offset + 20)) break;
+
+		const pageNumber = view.getUint32(offset);
+		pending.set(pageNumber, wal.subarray(offset + WAL_FRAME_HEADER_SIZE, offset + frameSize));
+
+		// A non-zero database size marks the commit frame of a transaction
+		const commitSize = view.getUint32(offset + 4);
+		if (commitSize > 0) {
+			for (const [page, data] of pending) committed.set(page, data);
+			pending.clear();
+			dbPages = commitSize;
+		}
+	}
+
+	if (committed.size === 0) return null;
+	return { pageSize, dbPages, pages: committed };
+}
+
+/**
+ * Read a SQLite database into memory with the committed frames of its
+ * write-ahead log applied. Falls back to the plain file when there is no
+ * usable WAL.
+ */
+export function readDatabaseWithWal(dbPath: string): Uint8Array {
+	let db = new Uint8Array(fs.readFileSync(dbPath));
+
+	const walPath = getWalPath(dbPath);
+	if (!fs.existsSync(walPath)) return db;
+
+	let frames;
+	try {
+		frames = readCommittedFrames(new Uint8Array(fs.readFileSync(walPath)));
+	} catch (e) {
+		console.warn("Could not read SQLite WAL file:", e);
+		return db;
+	}
+	if (!frames) return db;
+
+	const size = frames.dbPages * frames.pageSize;
+	if (db.length !== size) {
+		const resized = new Uint8Array(size);
+		resized.set(db.subarray(0, Math.min(db.length, size)));
+		db = resized;
+	}
+	for (const [pageNumber, data] of frames.pages) {
+		const offset = (pageNumber - 1) * frames.pageSize;
+		if (offset + frames.pageSize <= db.length) db.set(data, offset);
+	}
+
+	// Mark the copy as a rollback-journal database: sql.js cannot open WAL-mode files
+	if (db.length >= 20) {
+		db[18] = 1;
+		db[19] = 1;
+	}
+	return db;
+}
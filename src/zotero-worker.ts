@@ -0,0 +1,68 @@
+/**
+ * Zotero Read Worker
+ *
+ * Runs the queries of zotero-reader.ts off the main thread. esbuild bundles
+ * this file into main.js as a string (see esbuild.config.mjs) and
+ * zotero-db.ts starts it from a Blob URL for each read, and for each
+ * full-text index, which stays open in its worker until it is closed.
+ * Workers have no Node APIs, so the files are read by zotero-db.ts and
+ * sent along.
+ */
+
+import { IncrementalUpdate, ReadRequest, ReadStage, SqlJsDatabase, ZoteroData, loadSqlJs, readAll, readChanges, searchFullText } from "./zotero-reader";
+
+/**
+ * Messages sent to the worker: a read to run, or the database of a
+ * full-text index followed by its searches. sql.js comes from the plugin
+ * folder.
+ */
+export type WorkerRequest =
+	| { type: "read"; read: ReadRequest; sqlJsSource: string; wasmBinary: ArrayBuffer }
+	| { type: "openFullText"; db: Uint8Array; sqlJsSource: string; wasmBinary: ArrayBuffer }
+	| { type: "searchFullText"; words: string[] };
+
+/** Messages sent back: progress of a full read, then its result or error */
+export type WorkerMessage =
+	| { type: "progress"; stage: ReadStage }
+	| { type: "done"; result: ZoteroData | IncrementalUpdate | Map<string, string[]> | null }
+	| { type: "error"; message: string };
+
+interface WorkerScope {
+	onmessage: ((event: MessageEvent<WorkerRequest>) => void) | null;
+	postMessage(message: WorkerMessage): void;
+}
+
+const scope = globalThis as unknown as WorkerScope;
+
+// Database of the full-text index opened in this worker
+let fullTextDb: SqlJsDatabase | null = null;
+
+async function handle(request: WorkerRequest): Promise<ZoteroData | IncrementalUpdate | Map<string, string[]> | null> {
+	switch (request.type) {
+		case "read": {
+			const { read, sqlJsSource, wasmBinary } = request;
+			const SQL = await loadSqlJs(sqlJsSource, wasmBinary);
+			return read.since
+				? readChanges(SQL, { ...read, since: read.since })
+				: readAll(SQL, read, (stage) => scope.postMessage({ type: "progress", stage }));
+		}
+		case "openFullText": {
+			const SQL = await loadSqlJs(request.sqlJsSource, request.wasmBinary);
+			fullTextDb = new SQL.Database(request.db);
+			return null;
+		}
+		case "searchFullText":
+			if (!fullTextDb) throw new Error("The full-text index is not open");
+			return searchFullText(fullTextDb, request.words);
+	}
+}
+
+scope.onmessage = (event) => {
+	void (async () => {
+		try {
+			scope.postMessage({ type: "done", result: await handle(event.data) });
+		} catch (e) {
+			scope.postMessage({ type: "error", message: (e as Error).message });
+		}
+	})();
+};
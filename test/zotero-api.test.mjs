@@ -0,0 +1,195 @@
+// Reads the recorded responses of test/fixtures/local-api through readLocalApi
+// and the local API source of zotero-sources.ts, served by a local stand-in
+// for Zotero's local API.
+import { after, before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import esbuild from 'esbuild';
+import fs from 'fs';
+import http from 'http';
+import os from 'os';
+import path from 'path';
+import { URL, fileURLToPath, pathToFileURL } from 'url';
+
+const testDir = path.dirname(fileURLToPath(import.meta.url));
+const fixtureDir = path.join(testDir, 'fixtures', 'local-api');
+
+// The parts of the obsidian module used by zotero-api.ts, on top of fetch
+const obsidianStub = `
+export function normalizePath(p) { return p; }
+export async function requestUrl({ url, method, headers, contentType, body }) {
+	const response = await fetch(url, { method: method ?? 'GET', headers: { ...headers, ...(contentType ? { 'Content-Type': contentType } : {}) }, body });
+	const text = await response.text();
+	return { status: response.status, headers: Object.fromEntries(response.headers), text, get json() { return JSON.parse(text); } };
+}
+`;
+
+const stubPlugin = {
+	name: 'stubs',
+	setup(build) {
+		build.onResolve({ filter: /^obsidian$/ }, () => ({ path: 'obsidian', namespace: 'stub' }));
+		build.onLoad({ filter: /^obsidian$/, namespace: 'stub' }, () => ({ contents: obsidianStub, loader: 'js' }));
+		// The read worker is not started by the local API reader
+		build.onResolve({ filter: /\?worker$/ }, (args) => ({ path: args.path, namespace: 'worker-stub' }));
+		build.onLoad({ filter: /.*/, namespace: 'worker-stub' }, () => ({ contents: '', loader: 'text' }));
+	},
+};
+
+/** Serve the fixture named after the path ("/api/users/0/items" → users_0_items.json), page by page */
+function serveFixtures() {
+	return http.createServer((req, res) => {
+		const url = new URL(req.url, 'http://localhost');
+		if (url.pathname === '/better-bibtex/json-rpc') {
+			let body = '';
+			req.on('data', (chunk) => { body += chunk; });
+			req.on('end', () => {
+				const [keys] = JSON.parse(body).params;
+				const result = Object.fromEntries(keys.filter((key) => key === 'EFGH6789').map((key) => [key, 'li2019book']));
+				res.end(JSON.stringify({ jsonrpc: '2.0', id: 1, result }));
+			});
+			return;
+		}
+		const file = path.join(fixtureDir, url.pathname.replace(/^\/api\//, '').replace(/\//g, '_') + '.json');
+		if (!fs.existsSync(file)) {
+			res.writeHead(404);
+			res.end('Not found');
+			return;
+		}
+		let data = JSON.parse(fs.readFileSync(file, 'utf8'));
+		const headers = { 'Content-Type': 'application/json', 'Last-Modified-Version': '42' };
+		if (Array.isArray(data)) {
+			headers['Total-Results'] = String(data.length);
+			const start = Number(url.searchParams.get('start') ?? 0);
+			const limit = Number(url.searchParams.get('limit') ?? 25);
+			data = data.slice(start, start + limit);
+		}
+		res.writeHead(200, headers);
+		res.end(JSON.stringify(data));
+	});
+}
+
+const knownLibraries = {
+	1: { libraryID: 1, type: 'user', groupID: 0, name: 'My Library' },
+	3: { libraryID: 3, type: 'group', groupID: 555, name: 'Lab' },
+};
+
+let readLocalApi;
+let getDataSource;
+let server;
+let apiUrl;
+let outDir;
+
+before(async () => {
+	outDir = fs.mkdtempSync(path.join(os.tmpdir(), 'zotero-api-test-'));
+	const bundle = async (name) => {
+		const outfile = path.join(outDir, `${name}.mjs`);
+		await esbuild.build({
+			entryPoints: [path.join(testDir, '..', 'src', `${name}.ts`)],
+			bundle: true,
+			platform: 'node',
+			format: 'esm',
+			outfile,
+			plugins: [stubPlugin],
+			logLevel: 'error',
+		});
+		return import(pathToFileURL(outfile).href);
+	};
+	({ readLocalApi } = await bundle('zotero-api'));
+	({ getDataSource } = await bundle('zotero-sources'));
+
+	server = serveFixtures();
+	await new Promise((resolve) => server.listen(0, '127.0.0.1', resolve));
+	apiUrl = `http://127.0.0.1:${server.address().port}/api/`;
+});
+
+after(() => {
+	server.close();
+	fs.rmSync(outDir, { recursive: true, force: true });
+});
+
+test('reads the items of every library as References', async () => {
+	const data = await readLocalApi(apiUrl, '/zotero/zotero.sqlite', { baseAttachmentPath: '/papers-base', knownLibraries });
+
+	assert.deepEqual(data.items.map((item) => `${item.libraryID}/${item.itemKey}`), ['1/ABCD2345', '1/EFGH6789', '3/GRPITEM1']);
+	assert.equal(data.missingCitationKeyCount, 0);
+
+	const article = data.items[0];
+	assert.equal(article.citationKey, 'smith2020deep');
+	assert.equal(article.itemTypeLabel, 'Journal Article');
+	assert.equal(article.title, 'Deep Learning for Citation Graphs');
+	assert.equal(article.publicationTitle, 'Journal of Graphs');
+	assert.equal(article.dateAdded, '2021-01-01 09:00:00');
+	assert.equal(article.dateModified, '2022-02-02 10:30:00');
+	assert.deepEqual(article.creators, [
+		{ creatorType: 'author', firstName: 'Ann', lastName: 'Smith', name: '' },
+		{ creatorType: 'editor', firstName: '', lastName: '', name: 'World Health Organization' },
+	]);
+	assert.deepEqual(article.tags, [{ tag: 'graphs', type: 0 }, { tag: 'machine learning', type: 1 }]);
+	assert.deepEqual(article.coloredTags, ['graphs']);
+	assert.deepEqual(article.relatedItems, ['3/GRPITEM1']);
+	assert.equal(article.select, 'zotero://select/library/items/ABCD2345');
+
+	assert.deepEqual(article.attachments.map((a) => [a.key, a.path, a.title]), [
+		['ATTPDF01', path.join('/zotero', 'storage', 'ATTPDF01', 'smith2020.pdf'), 'smith2020.pdf'],
+		['ATTLNK01', path.join('/papers-base', 'papers/supplement.pdf'), 'Supplement'],
+	]);
+	assert.deepEqual(article.notes.map((n) => [n.key, n.title]), [['NOTE0001', 'Key findings & limits']]);
+	assert.deepEqual(article.annotations.map((a) => [a.key, a.text, a.color, a.pageIndex, a.tags]), [
+		['ANNOT001', 'first highlight', '#ff6666', 0, ['method']],
+		['ANNOT002', 'second highlight', '#ffd400', 4, []],
+	]);
+});
+
+test('takes citation keys from Better BibTeX, base fields and creator types from the schema', async () => {
+	const data = await readLocalApi(apiUrl, '/zotero/zotero.sqlite', { knownLibraries });
+	const book = data.items.find((item) => item.itemKey === 'EFGH6789');
+	assert.equal(book.citationKey, 'li2019book');
+
+	const thesis = data.items.find((item) => item.itemKey === 'GRPITEM1');
+	assert.equal(thesis.citationKey, 'wu2018thesis');
+	assert.equal(thesis.publisher, 'MIT');
+	assert.equal(thesis.libraryName, 'Lab');
+	assert.equal(thesis.select, 'zotero://select/groups/555/items/GRPITEM1');
+	assert.deepEqual(data.creatorTypes, ['author', 'contributor', 'editor']);
+});
+
+test('keys collections and saved searches by library', async () => {
+	const data = await readLocalApi(apiUrl, '/zotero/zotero.sqlite', { knownLibraries });
+	assert.deepEqual(Object.keys(data.collections).sort(), ['1/COLLAAAA', '1/COLLBBBB', '3/COLLAAAA']);
+	assert.deepEqual(data.collections['1/COLLAAAA'].items, ['1/ABCD2345']);
+	assert.deepEqual(data.collections['1/COLLBBBB'].items, ['1/EFGH6789']);
+	assert.equal(data.collections['1/COLLBBBB'].parent, '1/COLLAAAA');
+	assert.deepEqual(data.collections['3/COLLAAAA'].items, ['3/GRPITEM1']);
+	assert.deepEqual(Object.keys(data.savedSearches), ['1/SRCH0001']);
+	assert.deepEqual(data.trashedItemKeys, ['1/TRASH001']);
+	assert.deepEqual(data.liveItemKeys, ['1/ABCD2345', '1/EFGH6789', '3/GRPITEM1']);
+	assert.deepEqual(data.libraries, knownLibraries);
+});
+
+test('refuses groups whose libraryID is not known', async () => {
+	await assert.rejects(readLocalApi(apiUrl, '/zotero/zotero.sqlite', { knownLibraries: { 1: knownLibraries[1] } }), /group 555/);
+});
+
+test('fails when Zotero does not answer', async () => {
+	const closed = http.createServer();
+	await new Promise((resolve) => closed.listen(0, '127.0.0.1', resolve));
+	const { port } = closed.address();
+	await new Promise((resolve) => closed.close(resolve));
+	await assert.rejects(readLocalApi(`http://127.0.0.1:${port}/api`, '/zotero/zotero.sqlite', { knownLibraries }));
+});
+
+test('loads the cache of the source for the libraryIDs of the groups', async () => {
+	const settings = { zoteroDbPath: '/zotero/zotero.sqlite', sourceName: 'Zotero', sources: [], useLocalApi: true, localApiUrl: apiUrl };
+	let loaded = false;
+	// A cache manager whose cache is still on disk, as at the start of a session
+	const cacheManager = {
+		getCache: () => null,
+		loadCache: async () => {
+			loaded = true;
+			return { libraries: knownLibraries };
+		},
+	};
+	const data = await getDataSource(settings, 'Zotero', '/plugin', {}, cacheManager).read();
+	assert.ok(loaded);
+	// The database does not exist: these items can only come from the local API
+	assert.deepEqual(data.items.map((item) => `${item.libraryID}/${item.itemKey}`), ['1/ABCD2345', '1/EFGH6789', '3/GRPITEM1']);
+});